@@ -0,0 +1,137 @@
+/**
+ * Human approval for sensitive tool calls.
+ *
+ * A tool policy rule with `action: ask` (git push, vault writes, alerts, installs) holds
+ * the call until a person decides. The knight sends a NATS request to
+ *
+ *   <prefix>.approvals.<knight>   payload {"id", "knight", "task_id", "tool", "args", "rule", "reason", "timeout_ms"}
+ *
+ * and waits up to APPROVAL_TIMEOUT_MS for a reply:
+ *
+ *   {"approved": true|false, "reason": "...", "by": "..."}   (or {"decision": "approve"|"deny"}, or plain "approve"/"deny")
+ *
+ * An approval lets the call run; a denial blocks it with the approver's reason, which the
+ * agent sees. No reply in time, no approver listening or a cancelled task all count as a
+ * denial — a call that needed a yes never runs without one.
+ */
+import { ErrorCode, type NatsError } from "nats";
+import { natsPrefix, type KnightConfig } from "./config.js";
+import { log } from "./logger.js";
+import { approvalsTotal } from "./metrics.js";
+import { getConnection, StringCodec } from "./nats.js";
+import { getRedactor } from "./redact.js";
+
+const sc = StringCodec();
+
+/** Longest args JSON sent to approvers; bigger payloads (file contents) are cut. */
+const MAX_ARGS_CHARS = 4000;
+
+export interface ApprovalRequest {
+  /** The tool call's ID. */
+  id: string;
+  taskId?: string;
+  tool: string;
+  args: unknown;
+  /** The policy rule that asked for approval, and its reason. */
+  rule: string;
+  reason?: string;
+}
+
+/** How a request ended: a reply either way, or no decision at all. */
+export type ApprovalOutcome = "approved" | "denied" | "timeout" | "unavailable" | "cancelled";
+
+export interface ApprovalDecision {
+  approved: boolean;
+  outcome: ApprovalOutcome;
+  /** The approver's reason, or why there was no decision. */
+  reason?: string;
+  by?: string;
+}
+
+let knightConfig: KnightConfig | null = null;
+
+/** Enable approval requests (startup). Until then every request is `unavailable`. */
+export function initApprovals(config: KnightConfig): void {
+  knightConfig = config;
+}
+
+/**
+ * Parse an approver's reply. Returns a string naming the problem when it is neither an
+ * approval nor a denial.
+ */
+export function parseApprovalReply(data: string): Pick<ApprovalDecision, "approved" | "reason" | "by"> | string {
+  const text = data.trim();
+  let body: Record<string, unknown>;
+  try {
+    const json = JSON.parse(text);
+    body = json && typeof json === "object" ? json : { decision: String(json) };
+  } catch {
+    body = { decision: text };
+  }
+  const str = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : undefined);
+  let approved: boolean | undefined = typeof body.approved === "boolean" ? body.approved : undefined;
+  const decision = str(body.decision)?.toLowerCase();
+  if (approved === undefined && decision) {
+    if (["approve", "approved", "allow", "yes"].includes(decision)) approved = true;
+    if (["deny", "denied", "reject", "no"].includes(decision)) approved = false;
+  }
+  if (approved === undefined) return "reply is neither an approval nor a denial";
+  const reason = str(body.reason);
+  const by = str(body.by);
+  return { approved, ...(reason ? { reason } : {}), ...(by ? { by } : {}) };
+}
+
+/** Ask a human about a tool call and wait for the decision. Never throws. */
+export async function requestApproval(req: ApprovalRequest, signal?: AbortSignal): Promise<ApprovalDecision> {
+  const config = knightConfig;
+  const nc = getConnection();
+  const decide = (decision: ApprovalDecision): ApprovalDecision => {
+    const fields = { tool: req.tool, toolCallId: req.id, taskId: req.taskId, rule: req.rule, outcome: decision.outcome, by: decision.by, reason: decision.reason };
+    if (decision.approved) log.info("Tool call approved", fields);
+    else log.warn("Tool call not approved", fields);
+    approvalsTotal.inc({ knight: config?.knightName ?? "", tool: req.tool, outcome: decision.outcome });
+    return decision;
+  };
+  if (!config || !nc) return decide({ approved: false, outcome: "unavailable", reason: "no approver is reachable (NATS not connected)" });
+  if (signal?.aborted) return decide({ approved: false, outcome: "cancelled", reason: "the task was cancelled" });
+
+  const subject = `${natsPrefix(config)}.approvals.${config.knightName}`;
+  const payload = JSON.stringify({
+    id: req.id,
+    knight: config.knightName,
+    ...(req.taskId ? { task_id: req.taskId } : {}),
+    tool: req.tool,
+    args: truncateArgs(getRedactor().redactDeep(req.args)),
+    rule: req.rule,
+    ...(req.reason ? { reason: req.reason } : {}),
+    timeout_ms: config.approvalTimeoutMs,
+    requested_at: new Date().toISOString(),
+  });
+  log.info("Waiting for tool call approval", { subject, tool: req.tool, toolCallId: req.id, taskId: req.taskId, rule: req.rule });
+
+  let onAbort: (() => void) | undefined;
+  const aborted = new Promise<null>((resolve) => {
+    onAbort = () => resolve(null);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+  try {
+    const reply = await Promise.race([nc.request(subject, sc.encode(payload), { timeout: config.approvalTimeoutMs }), aborted]);
+    if (!reply) return decide({ approved: false, outcome: "cancelled", reason: "the task was cancelled" });
+    const parsed = parseApprovalReply(sc.decode(reply.data));
+    if (typeof parsed === "string") return decide({ approved: false, outcome: "denied", reason: `invalid approval reply: ${parsed}` });
+    return decide({ ...parsed, outcome: parsed.approved ? "approved" : "denied" });
+  } catch (err) {
+    const code = (err as NatsError).code;
+    if (code === ErrorCode.NoResponders) return decide({ approved: false, outcome: "unavailable", reason: `no approver is listening on ${subject}` });
+    if (code === ErrorCode.Timeout) return decide({ approved: false, outcome: "timeout", reason: `no decision within ${Math.round(config.approvalTimeoutMs / 1000)}s` });
+    return decide({ approved: false, outcome: "unavailable", reason: `approval request failed: ${err instanceof Error ? err.message : String(err)}` });
+  } finally {
+    if (onAbort) signal?.removeEventListener("abort", onAbort);
+  }
+}
+
+/** The args as sent to approvers (already redacted): as they are, or cut to a string if very large. */
+function truncateArgs(args: unknown): unknown {
+  const json = JSON.stringify(args) ?? "";
+  return json.length > MAX_ARGS_CHARS ? `${json.slice(0, MAX_ARGS_CHARS)}… (${json.length} chars)` : args;
+}
@@ -0,0 +1,244 @@
+/**
+ * Append-only, hash-chained audit trail of tool calls.
+ *
+ * Logs and Prometheus counters show that tools ran, but not reliably which ones, for which
+ * task, or whether anything was removed since. Every tool call now leaves two records —
+ * `before` (allowed or blocked, and why) and `after` (success or error, and how long it
+ * took) — with the task and run IDs, a SHA-256 of the full arguments and a truncated copy.
+ *
+ * Records go to a JSONL file on the PVC (AUDIT_LOG, rotated at AUDIT_LOG_MAX_BYTES into
+ * `.1`…`.N`) and, with AUDIT_SUBJECT set, to `<subject>.<knight>` on a JetStream stream.
+ * Each record carries the previous record's hash and its own, computed over the record
+ * including `prev`, so an edited, dropped or reordered record breaks the chain — across
+ * rotations and restarts too. `verifyAuditChain` checks a run of records.
+ */
+import { createHash } from "node:crypto";
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, rmSync, statSync } from "node:fs";
+import { dirname } from "node:path";
+import type { KnightConfig } from "./config.js";
+import { log } from "./logger.js";
+import { getConnection, getJetStream, StringCodec } from "./nats.js";
+import { getRedactor } from "./redact.js";
+
+const sc = StringCodec();
+
+/** `prev` of the very first record. */
+export const AUDIT_GENESIS = "0".repeat(64);
+
+/** Longest argument copy kept in a record (secrets redacted); the hash covers the full arguments. */
+const MAX_ARGS_CHARS = 500;
+
+export type AuditEvent = "before" | "after";
+export type AuditOutcome = "allowed" | "blocked" | "success" | "error";
+
+/** What the hooks report about one tool event. */
+export interface AuditEntry {
+  event: AuditEvent;
+  taskId?: string;
+  runId?: string;
+  tool: string;
+  toolCallId: string;
+  args: unknown;
+  outcome: AuditOutcome;
+  durationMs?: number;
+  blockedReason?: string;
+}
+
+export interface AuditRecord {
+  seq: number;
+  ts: string;
+  knight: string;
+  event: AuditEvent;
+  task_id: string | null;
+  run_id: string | null;
+  tool: string;
+  tool_call_id: string;
+  args_sha256: string;
+  args: string;
+  outcome: AuditOutcome;
+  duration_ms?: number;
+  blocked_reason?: string;
+  prev: string;
+  hash: string;
+}
+
+export class AuditLog {
+  private seq = 0;
+  private prev = AUDIT_GENESIS;
+
+  constructor(
+    private readonly knight: string,
+    /** JSONL file; empty keeps no file (publish only). */
+    private readonly path: string,
+    private readonly maxBytes: number,
+    /** Rotated files kept (`<path>.1` is the newest). */
+    private readonly maxFiles: number,
+    /** Where each record is also published, if anywhere. */
+    private readonly publish?: (record: AuditRecord) => void,
+  ) {}
+
+  /** Pick the chain up where the last record on disk left it. */
+  load(): void {
+    if (!this.path) return;
+    const files = [this.path, `${this.path}.1`];
+    for (const file of files) {
+      if (!existsSync(file)) continue;
+      const lines = readFileSync(file, "utf-8").split("\n").filter((l) => l.trim());
+      if (lines.length === 0) continue;
+      try {
+        const last = JSON.parse(lines[lines.length - 1]) as AuditRecord;
+        this.seq = last.seq;
+        this.prev = last.hash;
+        log.info("Audit log resumed", { path: file, seq: this.seq });
+      } catch {
+        log.warn("Audit log ends in an unreadable record — the chain restarts", { path: file });
+      }
+      return;
+    }
+  }
+
+  /** Append one record. Failures are logged; a tool call never fails because of auditing. */
+  record(entry: AuditEntry, now = new Date()): AuditRecord {
+    const json = JSON.stringify(entry.args) ?? "";
+    const body: Omit<AuditRecord, "hash"> = {
+      seq: this.seq + 1,
+      ts: now.toISOString(),
+      knight: this.knight,
+      event: entry.event,
+      task_id: entry.taskId ?? null,
+      run_id: entry.runId ?? null,
+      tool: entry.tool,
+      tool_call_id: entry.toolCallId,
+      args_sha256: createHash("sha256").update(json).digest("hex"),
+      args: truncate(getRedactor().redact(json).text),
+      outcome: entry.outcome,
+      ...(entry.durationMs !== undefined ? { duration_ms: entry.durationMs } : {}),
+      ...(entry.blockedReason ? { blocked_reason: entry.blockedReason } : {}),
+      prev: this.prev,
+    };
+    const record: AuditRecord = { ...body, hash: auditHash(body) };
+    this.seq = record.seq;
+    this.prev = record.hash;
+
+    if (this.path) {
+      const line = JSON.stringify(record) + "\n";
+      try {
+        mkdirSync(dirname(this.path), { recursive: true });
+        this.rotateFor(Buffer.byteLength(line));
+        appendFileSync(this.path, line);
+      } catch (err) {
+        log.warn("Failed to write audit record", { path: this.path, seq: record.seq, error: String(err) });
+      }
+    }
+    this.publish?.(record);
+    return record;
+  }
+
+  private rotateFor(bytes: number): void {
+    if (this.maxBytes <= 0 || !existsSync(this.path)) return;
+    if (statSync(this.path).size + bytes <= this.maxBytes) return;
+    if (this.maxFiles <= 0) {
+      rmSync(this.path);
+      return;
+    }
+    rmSync(`${this.path}.${this.maxFiles}`, { force: true });
+    for (let n = this.maxFiles - 1; n >= 1; n--) {
+      if (existsSync(`${this.path}.${n}`)) renameSync(`${this.path}.${n}`, `${this.path}.${n + 1}`);
+    }
+    renameSync(this.path, `${this.path}.1`);
+    log.info("Audit log rotated", { path: this.path, seq: this.seq });
+  }
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_ARGS_CHARS ? `${text.slice(0, MAX_ARGS_CHARS)}…` : text;
+}
+
+/** The hash of a record: SHA-256 over its JSON without `hash`, `prev` included. */
+export function auditHash(body: Omit<AuditRecord, "hash">): string {
+  return createHash("sha256").update(JSON.stringify(body)).digest("hex");
+}
+
+export type ChainCheck = { ok: true; records: number; last: string } | { ok: false; line: number; problem: string };
+
+/**
+ * Check a run of JSONL audit records, oldest first: each must hash to its `hash`, point at
+ * the previous record's, and follow it in `seq`. Pass the hash the run should continue
+ * from (the end of the previous file) to check across rotations.
+ */
+export function verifyAuditChain(lines: string[], prev = AUDIT_GENESIS): ChainCheck {
+  let seq: number | undefined;
+  let count = 0;
+  for (const [i, line] of lines.entries()) {
+    if (!line.trim()) continue;
+    let record: AuditRecord;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      return { ok: false, line: i + 1, problem: "not JSON" };
+    }
+    const { hash, ...body } = record;
+    if (auditHash(body) !== hash) return { ok: false, line: i + 1, problem: `record ${record.seq} was modified` };
+    if (record.prev !== prev) return { ok: false, line: i + 1, problem: `record ${record.seq} does not follow the previous record` };
+    if (seq !== undefined && record.seq !== seq + 1) return { ok: false, line: i + 1, problem: `records ${seq + 1}–${record.seq - 1} are missing` };
+    seq = record.seq;
+    prev = hash;
+    count++;
+  }
+  return { ok: true, records: count, last: prev };
+}
+
+// ─── Module state ──────────────────────────────────────────────────
+
+let audit: AuditLog | null = null;
+
+/**
+ * Start the audit trail (startup, after NATS connects). With neither AUDIT_LOG nor
+ * AUDIT_SUBJECT set there is nothing to write to, and auditing is off.
+ */
+export async function initAuditLog(config: KnightConfig): Promise<AuditLog | null> {
+  if (!config.auditLogPath && !config.auditSubject) {
+    log.warn("Tool audit trail disabled — AUDIT_LOG and AUDIT_SUBJECT are empty");
+    return null;
+  }
+  let publish: ((record: AuditRecord) => void) | undefined;
+  if (config.auditSubject) {
+    try {
+      await ensureAuditStream(config);
+      const subject = `${config.auditSubject}.${config.knightName}`;
+      publish = (record) => {
+        const js = getJetStream();
+        js?.publish(subject, sc.encode(JSON.stringify(record))).catch((err) => {
+          log.warn("Failed to publish audit record", { subject, seq: record.seq, error: String(err) });
+        });
+      };
+    } catch (err) {
+      log.warn("Audit stream unavailable — auditing to the PVC only", { stream: config.auditStream, error: String(err) });
+    }
+  }
+  audit = new AuditLog(config.knightName, config.auditLogPath, config.auditLogMaxBytes, config.auditLogMaxFiles, publish);
+  audit.load();
+  log.info("Tool audit trail enabled", { path: config.auditLogPath || undefined, subject: publish ? config.auditSubject : undefined });
+  return audit;
+}
+
+export function getAuditLog(): AuditLog | null {
+  return audit;
+}
+
+/** Create the audit stream if it doesn't exist yet. Knights share it per table. */
+async function ensureAuditStream(config: KnightConfig): Promise<void> {
+  const nc = getConnection();
+  if (!nc) throw new Error("NATS not connected");
+  const jsm = await nc.jetstreamManager();
+  try {
+    await jsm.streams.info(config.auditStream);
+  } catch {
+    await jsm.streams.add({
+      name: config.auditStream,
+      subjects: [`${config.auditSubject}.>`],
+      max_age: Math.max(0, config.auditMaxAgeMs) * 1_000_000, // nanoseconds; 0 keeps everything
+    });
+    log.info("Audit stream created", { stream: config.auditStream, subject: `${config.auditSubject}.>`, maxAgeMs: config.auditMaxAgeMs });
+  }
+}
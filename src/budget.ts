@@ -0,0 +1,84 @@
+/**
+ * Per-task cost and token budgets.
+ *
+ * Cost is otherwise only measured once a task ends, so a runaway tool loop could spend
+ * without bound until the task timeout. A task may carry `metadata.max_cost_usd` and/or
+ * `metadata.max_tokens` (defaults: TASK_MAX_COST_USD / TASK_MAX_TOKENS). Spend is checked
+ * after every assistant message; past a limit the session is aborted and the task ends
+ * with a `budget_exceeded` outcome carrying whatever partial result it had.
+ *
+ * Tokens count everything the task was billed for: input, output and cached input — a
+ * looping agent mostly re-reads its cached context.
+ */
+import type { AgentSession } from "@earendil-works/pi-coding-agent";
+import type { KnightConfig } from "./config.js";
+import { log } from "./logger.js";
+import type { ParsedTask } from "./nats.js";
+
+export interface TaskBudget {
+  maxCostUsd?: number;
+  maxTokens?: number;
+}
+
+export interface BudgetUsage {
+  cost: number;
+  tokens: number;
+}
+
+type SessionStats = ReturnType<AgentSession["getSessionStats"]>;
+
+/** The task's limits, falling back to the knight's defaults. Undefined when unlimited. */
+export function resolveBudget(config: KnightConfig, task: Pick<ParsedTask, "maxCostUsd" | "maxTokens">): TaskBudget | undefined {
+  const maxCostUsd = task.maxCostUsd ?? (config.taskMaxCostUsd > 0 ? config.taskMaxCostUsd : undefined);
+  const maxTokens = task.maxTokens ?? (config.taskMaxTokens > 0 ? config.taskMaxTokens : undefined);
+  if (maxCostUsd === undefined && maxTokens === undefined) return undefined;
+  return { ...(maxCostUsd !== undefined ? { maxCostUsd } : {}), ...(maxTokens !== undefined ? { maxTokens } : {}) };
+}
+
+/** Which limit the usage has reached, described for the result — or undefined if none. */
+export function budgetExceeded(budget: TaskBudget, usage: BudgetUsage): string | undefined {
+  if (budget.maxCostUsd !== undefined && usage.cost >= budget.maxCostUsd) {
+    return `cost $${usage.cost.toFixed(4)} reached the task budget of $${budget.maxCostUsd}`;
+  }
+  if (budget.maxTokens !== undefined && usage.tokens >= budget.maxTokens) {
+    return `${usage.tokens} tokens reached the task budget of ${budget.maxTokens}`;
+  }
+  return undefined;
+}
+
+/** What the task has spent since `before`, from session-cumulative stats. */
+export function usageSince(before: SessionStats, after: SessionStats): BudgetUsage {
+  const tokens = (s: SessionStats) => s.tokens.input + s.tokens.output + s.tokens.cacheRead;
+  const delta = (d: number) => (Number.isFinite(d) ? Math.max(0, d) : 0);
+  return { cost: delta(after.cost - before.cost), tokens: delta(tokens(after) - tokens(before)) };
+}
+
+export interface BudgetWatch {
+  /** Why the budget tripped, or undefined while the task is within it. */
+  exceeded(): string | undefined;
+  stop(): void;
+}
+
+/**
+ * Watch a task's spend on the session and abort it once the budget is reached. `extra` is
+ * spend the session's stats don't include — the task's sub-agents.
+ */
+export function watchBudget(
+  sess: AgentSession,
+  budget: TaskBudget,
+  before: SessionStats,
+  extra: () => BudgetUsage = () => ({ cost: 0, tokens: 0 }),
+): BudgetWatch {
+  let exceeded: string | undefined;
+  const unsubscribe = sess.subscribe((event) => {
+    if (exceeded || event.type !== "message_end" || event.message.role !== "assistant") return;
+    const own = usageSince(before, sess.getSessionStats());
+    const other = extra();
+    exceeded = budgetExceeded(budget, { cost: own.cost + other.cost, tokens: own.tokens + other.tokens });
+    if (exceeded) {
+      log.warn("Task budget exceeded — aborting", { reason: exceeded, ...budget });
+      void sess.abort();
+    }
+  });
+  return { exceeded: () => exceeded, stop: unsubscribe };
+}
@@ -0,0 +1,106 @@
+/**
+ * Task cancellation over NATS.
+ *
+ * Orchestrators take back runaway or mistaken work without restarting the pod by
+ * publishing (or requesting) on either subject:
+ *
+ *   <prefix>.cancel.<knight>   payload {"task_id": "...", "reason": "...", "cancelled_by": "..."}
+ *   <prefix>.cancel.<taskId>   payload optional ({"reason": ..., "cancelled_by": ...})
+ *
+ * One wildcard subscription covers both. A token matching this knight's name is a
+ * knight-addressed cancel; any other token is taken as a task ID and only acted on if
+ * this knight is running or queuing that task — the rest belong to other knights and are
+ * ignored without a reply. Requests with a reply subject get the outcome back.
+ */
+import type { Subscription } from "nats";
+import { natsPrefix, type KnightConfig } from "./config.js";
+import { log } from "./logger.js";
+import { getConnection, StringCodec } from "./nats.js";
+
+const sc = StringCodec();
+
+export interface CancelRequest {
+  taskId: string;
+  reason?: string;
+  cancelledBy?: string;
+  /** True when addressed to this knight by name (always answered, even if not found). */
+  addressed: boolean;
+}
+
+/** Where the task was when the cancel arrived. */
+export type CancelState = "running" | "queued" | "not_found";
+
+let sub: Subscription | null = null;
+
+/**
+ * Parse a cancel message. Returns null when the message can't name a task (knight-addressed
+ * with no task_id). The payload is optional for task-addressed cancels, and a non-JSON
+ * payload is tolerated as a plain-text reason.
+ */
+export function parseCancelRequest(subjectToken: string, knightName: string, data: string): CancelRequest | null {
+  let body: Record<string, unknown> = {};
+  if (data.trim()) {
+    try {
+      const json = JSON.parse(data);
+      if (json && typeof json === "object") body = json;
+    } catch {
+      body = { reason: data.trim() };
+    }
+  }
+  const str = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : undefined);
+  const addressed = subjectToken.toLowerCase() === knightName.toLowerCase();
+  const taskId = addressed ? str(body.task_id ?? body.taskId) : subjectToken;
+  if (!taskId) return null;
+  return {
+    taskId,
+    reason: str(body.reason),
+    cancelledBy: str(body.cancelled_by ?? body.cancelledBy ?? body.from),
+    addressed,
+  };
+}
+
+export function startCancelResponder(
+  config: KnightConfig,
+  onCancel: (req: CancelRequest) => CancelState,
+): void {
+  const nc = getConnection();
+  if (!nc) {
+    log.warn("Cannot start cancel responder — NATS not connected");
+    return;
+  }
+
+  const subject = `${natsPrefix(config)}.cancel.*`;
+  sub = nc.subscribe(subject);
+  log.info("Cancel responder started", { subject });
+
+  (async () => {
+    for await (const msg of sub) {
+      try {
+        const token = msg.subject.split(".").pop() ?? "";
+        const req = parseCancelRequest(token, config.knightName, sc.decode(msg.data));
+        if (!req) {
+          log.warn("Cancel request without task_id — ignoring", { subject: msg.subject });
+          if (msg.reply) msg.respond(sc.encode(JSON.stringify({ error: "task_id is required" })));
+          continue;
+        }
+
+        const state = onCancel(req);
+        if (state === "not_found" && !req.addressed) continue; // another knight's task
+
+        log.info("Cancel request handled", { taskId: req.taskId, state, cancelledBy: req.cancelledBy, reason: req.reason });
+        if (msg.reply) {
+          msg.respond(sc.encode(JSON.stringify({
+            task_id: req.taskId,
+            knight: config.knightName,
+            cancelled: state !== "not_found",
+            state,
+          })));
+        }
+      } catch (err) {
+        const errMsg = err instanceof Error ? err.message : String(err);
+        log.error("Cancel handler error", { error: errMsg });
+        if (msg.reply) msg.respond(sc.encode(JSON.stringify({ error: errMsg })));
+      }
+    }
+  })();
+}
@@ -1,5 +1,7 @@
 import os from "node:os";
 
+export type TaskDeliveryMode = "at-most-once" | "at-least-once";
+
 export interface KnightConfig {
   knightName: string;
   knightModel: string;
@@ -9,17 +11,164 @@ export interface KnightConfig {
   natsResultsStream: string;
   natsResultsPrefix: string;
   taskTimeoutMs: number;
+  /** "at-most-once" acks on receipt (default); "at-least-once" acks after the task finishes. */
+  taskDeliveryMode: TaskDeliveryMode;
+  /** Delivery attempts before a task is given up on (at-least-once only). */
+  taskMaxDeliver: number;
+  /** Ack wait for in-flight tasks, kept alive by working() heartbeats (at-least-once only). */
+  taskAckWaitMs: number;
+  /** Delay before a nak'd task is redelivered (at-least-once only). */
+  taskNakDelayMs: number;
   maxConcurrentTasks: number;
+  /** JSONL journal for the overflow task queue (PVC). Empty disables persistence. */
+  taskQueueJournalPath: string;
+  /** Priority for tasks that don't set one, by task domain (TASK_PRIORITY_DOMAINS). */
+  taskPriorityDomains: Record<string, TaskPriority>;
+  /** A queued task gains one priority level per this much waiting (0 disables aging). */
+  taskPriorityAgingMs: number;
+  /** JSONL store of successful results by idempotency key (PVC). Empty keeps it in memory. */
+  idempotencyStorePath: string;
+  /** How long a stored result answers duplicates. */
+  idempotencyTtlMs: number;
+  /** Most results kept; the oldest are evicted first. */
+  idempotencyMaxEntries: number;
+  /** JSONL map of task IDs to their session file and leaf entry (PVC), for follow-up tasks. */
+  threadStorePath: string;
+  /** Most tasks kept resumable; the oldest are evicted first. */
+  threadMaxEntries: number;
+  /** Default per-task spend limit in USD (TASK_MAX_COST_USD; 0: unlimited). */
+  taskMaxCostUsd: number;
+  /** Default per-task token limit, cached input included (TASK_MAX_TOKENS; 0: unlimited). */
+  taskMaxTokens: number;
+  /** JSONL ledger of every task's and sub-agent's spend (PVC), rolled up by day and month. */
+  spendLedgerPath: string;
+  /** Daily/monthly spend past which tasks warn and run on spendDegradedModel (0: no cap). */
+  spendSoftCapDailyUsd: number;
+  spendSoftCapMonthlyUsd: number;
+  /** Daily/monthly spend past which new tasks are rejected and /ready reports degraded (0: no cap). */
+  spendHardCapDailyUsd: number;
+  spendHardCapMonthlyUsd: number;
+  /** Cheaper model tasks run on once a soft cap is reached (SPEND_DEGRADED_MODEL; empty: keep the model). */
+  spendDegradedModel: string;
+  /** Rotate a run's session to a fresh one past this many messages (SESSION_MAX_MESSAGES; 0: no limit). */
+  sessionMaxMessages: number;
+  /** ...past this session file size in bytes (SESSION_MAX_BYTES; 0: no limit). */
+  sessionMaxBytes: number;
+  /** ...past this cumulative cost in USD (SESSION_MAX_COST_USD; 0: no limit). */
+  sessionMaxCostUsd: number;
+  /** ...after this long without activity (SESSION_MAX_IDLE_MS; 0: no limit). */
+  sessionMaxIdleMs: number;
+  /** Re-prompts allowed to fix a deliverable that doesn't match the task's output_schema. */
+  outputSchemaMaxRepairs: number;
+  /** Reject task payloads that don't match the task envelope schema (TASK_ENVELOPE_STRICT). */
+  taskEnvelopeStrict: boolean;
+  /** Results whose encoded message exceeds this many bytes go to the object store (0 disables). */
+  resultOffloadBytes: number;
+  /** JetStream Object Store bucket for offloaded results (created on first use). */
+  resultObjectBucket: string;
+  /** How long offloaded results are kept. */
+  resultObjectTtlMs: number;
+  /** Subject prefix dead letters go to (`<subject>.<knight>.<taskId>`). Empty disables. */
+  deadLetterSubject: string;
+  /** JetStream stream holding dead letters (created on startup if missing). */
+  deadLetterStream: string;
+  /** Publish live progress events to `<prefix>.progress.<taskId>` while tasks run. */
+  progressEnabled: boolean;
+  /** Minimum interval between coalesced assistant-text progress events. */
+  progressThrottleMs: number;
+  /** Watch /skills, /config and the personality files in /data, and reload on change (HOT_RELOAD). */
+  hotReloadEnabled: boolean;
+  /** Quiet period after the last change before a reload runs. */
+  hotReloadDebounceMs: number;
   metricsPort: number;
   logLevel: string;
   hostname: string;
   thinkingLevel: string;
+  /** Tool policy file, YAML or JSON (TOOL_POLICY); missing: the built-in rules only. */
+  toolPolicyPath: string;
+  /** How long a tool call waits for a human decision on `<prefix>.approvals.<knight>` (APPROVAL_TIMEOUT_MS). */
+  approvalTimeoutMs: number;
+  /** Hash-chained JSONL audit trail of tool calls (AUDIT_LOG); empty keeps no file. */
+  auditLogPath: string;
+  /** Size at which the audit file rotates to `.1` (AUDIT_LOG_MAX_BYTES; 0: never). */
+  auditLogMaxBytes: number;
+  /** Rotated audit files kept (AUDIT_LOG_MAX_FILES). */
+  auditLogMaxFiles: number;
+  /** Subject prefix audit records are published to (`<subject>.<knight>`); empty disables. */
+  auditSubject: string;
+  /** JetStream stream holding audit records (created on startup if missing). */
+  auditStream: string;
+  /** How long the audit stream keeps records (AUDIT_MAX_AGE_MS; 0: forever). */
+  auditMaxAgeMs: number;
+  /** Env vars whose values are redacted wherever they appear (REDACT_ENV_VARS, `*` globs). */
+  redactEnvVars: string[];
+  /** Secret files, or directories of them, whose contents are redacted (REDACT_SECRET_FILES). */
+  redactSecretFiles: string[];
+  /** Also redact long high-entropy tokens (REDACT_ENTROPY). */
+  redactEntropy: boolean;
+  /** Where write, edit and bash may write (FS_WRITABLE_ROOTS); empty disables scoping. */
+  fsWritableRoots: string[];
+  /** Refused for writes even inside a writable root, unless a writable root is nested deeper (FS_READONLY_ROOTS). */
+  fsReadOnlyRoots: string[];
+  /** Preamble template file (KNIGHT_PREAMBLE_TEMPLATE); empty tries /data then /config PREAMBLE.md. */
+  preambleTemplatePath: string;
+  /** `{{vault_path}}` and `{{vault_rules}}` in the preamble; an empty path drops the vault line. */
+  vaultPath: string;
+  vaultRules: string;
+  /** Models tried in order when a prompt ends in a provider error (KNIGHT_FALLBACK_MODELS). */
+  fallbackModels: string[];
+  /** Models a task may request in metadata.model (KNIGHT_MODEL_ALLOWLIST). KNIGHT_MODEL is always allowed. */
+  modelAllowlist: string[];
+  /** Thinking levels a task may request in metadata.thinking (KNIGHT_THINKING_ALLOWLIST). KNIGHT_THINKING is always allowed. */
+  thinkingAllowlist: string[];
   maxRetryDelayMs: number;
   thinkingBudgetLow: number;
   thinkingBudgetMedium: number;
   thinkingBudgetHigh: number;
 }
 
+/**
+ * The table's NATS subject prefix, derived from the results prefix
+ * (e.g. "rt-dev.results" → "rt-dev"). All knight-addressed subjects hang off it.
+ */
+export function natsPrefix(config: KnightConfig): string {
+  return config.natsResultsPrefix.replace(/\.results$/, "");
+}
+
+/** Task priority levels, lowest first. Unprioritized tasks are "normal". */
+export const TASK_PRIORITIES = ["low", "normal", "high", "critical"] as const;
+export type TaskPriority = (typeof TASK_PRIORITIES)[number];
+
+/**
+ * Parse a priority from task JSON or config: a level name (case-insensitive) or its
+ * index 0–3. Anything else is undefined so the caller's default applies.
+ */
+export function parseTaskPriority(value: unknown): TaskPriority | undefined {
+  if (typeof value === "number" && Number.isInteger(value)) return TASK_PRIORITIES[value];
+  if (typeof value !== "string") return undefined;
+  const name = value.trim().toLowerCase();
+  return TASK_PRIORITIES.find((p) => p === name);
+}
+
+/** Parse `security=high,alerts=critical,research=low`; invalid entries are dropped. */
+export function parsePriorityDomains(spec: string): Record<string, TaskPriority> {
+  const domains: Record<string, TaskPriority> = {};
+  for (const entry of spec.split(",")) {
+    const [domain, level] = entry.split("=").map((s) => s.trim());
+    const priority = parseTaskPriority(level);
+    if (domain && priority) domains[domain] = priority;
+  }
+  return domains;
+}
+
+/** Thinking levels a session accepts, lowest first. */
+export const THINKING_LEVELS = ["off", "minimal", "low", "medium", "high", "xhigh"] as const;
+
+/** Parse a comma-separated list, dropping blanks. */
+export function parseList(spec: string): string[] {
+  return spec.split(",").map((s) => s.trim()).filter(Boolean);
+}
+
 function requireEnv(name: string): string {
   const val = process.env[name];
   if (!val) throw new Error(`Required environment variable ${name} is not set`);
@@ -27,6 +176,9 @@ function requireEnv(name: string): string {
 }
 
 export function loadConfig(): KnightConfig {
+  const natsTasksStream = process.env["NATS_TASKS_STREAM"] ?? "fleet_a_tasks";
+  const natsResultsStream = process.env["NATS_RESULTS_STREAM"] ?? "fleet_a_results";
+  const natsResultsPrefix = process.env["NATS_RESULTS_PREFIX"] ?? "fleet-a.results";
   return {
     knightName: requireEnv("KNIGHT_NAME"),
     // Cheap, tool-capable, cache-enabled fleet default. Upgrade individual knights
@@ -34,15 +186,69 @@ export function loadConfig(): KnightConfig {
     knightModel: process.env["KNIGHT_MODEL"] ?? "openrouter/deepseek/deepseek-v3.2",
     subscribeTopics: requireEnv("SUBSCRIBE_TOPICS").split(",").map((s) => s.trim()),
     natsUrl: process.env["NATS_URL"] ?? "nats://nats.database.svc.cluster.local:4222",
-    natsTasksStream: process.env["NATS_TASKS_STREAM"] ?? "fleet_a_tasks",
-    natsResultsStream: process.env["NATS_RESULTS_STREAM"] ?? "fleet_a_results",
-    natsResultsPrefix: process.env["NATS_RESULTS_PREFIX"] ?? "fleet-a.results",
+    natsTasksStream,
+    natsResultsStream,
+    natsResultsPrefix,
     taskTimeoutMs: parseInt(process.env["TASK_TIMEOUT_MS"] ?? "1800000", 10),
+    taskDeliveryMode: process.env["TASK_DELIVERY_MODE"] === "at-least-once" ? "at-least-once" : "at-most-once",
+    taskMaxDeliver: parseInt(process.env["TASK_MAX_DELIVER"] ?? "3", 10),
+    taskAckWaitMs: parseInt(process.env["TASK_ACK_WAIT_MS"] ?? "120000", 10),
+    taskNakDelayMs: parseInt(process.env["TASK_NAK_DELAY_MS"] ?? "30000", 10),
     maxConcurrentTasks: parseInt(process.env["MAX_CONCURRENT_TASKS"] ?? "2", 10),
+    taskQueueJournalPath: process.env["TASK_QUEUE_JOURNAL"] ?? "/data/task-queue.jsonl",
+    taskPriorityDomains: parsePriorityDomains(process.env["TASK_PRIORITY_DOMAINS"] ?? ""),
+    taskPriorityAgingMs: parseInt(process.env["TASK_PRIORITY_AGING_MS"] ?? "300000", 10),
+    idempotencyStorePath: process.env["IDEMPOTENCY_STORE"] ?? "/data/idempotency.jsonl",
+    idempotencyTtlMs: parseInt(process.env["IDEMPOTENCY_TTL_MS"] ?? "86400000", 10),
+    idempotencyMaxEntries: parseInt(process.env["IDEMPOTENCY_MAX_ENTRIES"] ?? "1000", 10),
+    threadStorePath: process.env["THREAD_STORE"] ?? "/data/threads.jsonl",
+    threadMaxEntries: parseInt(process.env["THREAD_MAX_ENTRIES"] ?? "5000", 10),
+    taskMaxCostUsd: parseFloat(process.env["TASK_MAX_COST_USD"] ?? "0"),
+    taskMaxTokens: parseInt(process.env["TASK_MAX_TOKENS"] ?? "0", 10),
+    spendLedgerPath: process.env["SPEND_LEDGER"] ?? "/data/spend-ledger.jsonl",
+    spendSoftCapDailyUsd: parseFloat(process.env["SPEND_SOFT_CAP_DAILY_USD"] ?? "0"),
+    spendSoftCapMonthlyUsd: parseFloat(process.env["SPEND_SOFT_CAP_MONTHLY_USD"] ?? "0"),
+    spendHardCapDailyUsd: parseFloat(process.env["SPEND_HARD_CAP_DAILY_USD"] ?? "0"),
+    spendHardCapMonthlyUsd: parseFloat(process.env["SPEND_HARD_CAP_MONTHLY_USD"] ?? "0"),
+    spendDegradedModel: process.env["SPEND_DEGRADED_MODEL"] ?? "",
+    sessionMaxMessages: parseInt(process.env["SESSION_MAX_MESSAGES"] ?? "0", 10),
+    sessionMaxBytes: parseInt(process.env["SESSION_MAX_BYTES"] ?? "0", 10),
+    sessionMaxCostUsd: parseFloat(process.env["SESSION_MAX_COST_USD"] ?? "0"),
+    sessionMaxIdleMs: parseInt(process.env["SESSION_MAX_IDLE_MS"] ?? "0", 10),
+    outputSchemaMaxRepairs: parseInt(process.env["OUTPUT_SCHEMA_MAX_REPAIRS"] ?? "2", 10),
+    taskEnvelopeStrict: process.env["TASK_ENVELOPE_STRICT"] === "true",
+    resultOffloadBytes: parseInt(process.env["RESULT_OFFLOAD_BYTES"] ?? "524288", 10),
+    resultObjectBucket: process.env["RESULT_OBJECT_BUCKET"] ?? `${natsResultsStream}_objects`,
+    resultObjectTtlMs: parseInt(process.env["RESULT_OBJECT_TTL_MS"] ?? "604800000", 10),
+    deadLetterSubject: process.env["DEAD_LETTER_SUBJECT"] ?? `${natsResultsPrefix.replace(/\.results$/, "")}.deadletter`,
+    deadLetterStream: process.env["DEAD_LETTER_STREAM"] ?? natsTasksStream.replace(/_tasks$/, "") + "_deadletter",
+    progressEnabled: process.env["PROGRESS_ENABLED"] !== "false",
+    progressThrottleMs: parseInt(process.env["PROGRESS_THROTTLE_MS"] ?? "1000", 10),
+    hotReloadEnabled: process.env["HOT_RELOAD"] !== "false",
+    hotReloadDebounceMs: parseInt(process.env["HOT_RELOAD_DEBOUNCE_MS"] ?? "5000", 10),
     metricsPort: parseInt(process.env["METRICS_PORT"] ?? "3000", 10),
     logLevel: process.env["LOG_LEVEL"] ?? "info",
     hostname: os.hostname(),
     thinkingLevel: process.env["KNIGHT_THINKING"] ?? "off",
+    toolPolicyPath: process.env["TOOL_POLICY"] ?? "/config/tool-policy.yaml",
+    approvalTimeoutMs: parseInt(process.env["APPROVAL_TIMEOUT_MS"] ?? "300000", 10),
+    auditLogPath: process.env["AUDIT_LOG"] ?? "/data/audit/tool-audit.jsonl",
+    auditLogMaxBytes: parseInt(process.env["AUDIT_LOG_MAX_BYTES"] ?? "10485760", 10),
+    auditLogMaxFiles: parseInt(process.env["AUDIT_LOG_MAX_FILES"] ?? "5", 10),
+    auditSubject: process.env["AUDIT_SUBJECT"] ?? "",
+    auditStream: process.env["AUDIT_STREAM"] ?? natsTasksStream.replace(/_tasks$/, "") + "_audit",
+    auditMaxAgeMs: parseInt(process.env["AUDIT_MAX_AGE_MS"] ?? "7776000000", 10),
+    redactEnvVars: parseList(process.env["REDACT_ENV_VARS"] ?? "*_KEY,*_TOKEN,*_SECRET,*_PASSWORD,*_CREDS,*_CREDENTIALS"),
+    redactSecretFiles: parseList(process.env["REDACT_SECRET_FILES"] ?? ""),
+    redactEntropy: process.env["REDACT_ENTROPY"] === "true",
+    fsWritableRoots: parseList(process.env["FS_WRITABLE_ROOTS"] ?? ""),
+    fsReadOnlyRoots: parseList(process.env["FS_READONLY_ROOTS"] ?? ""),
+    preambleTemplatePath: process.env["KNIGHT_PREAMBLE_TEMPLATE"] ?? "",
+    vaultPath: process.env["KNIGHT_VAULT_PATH"] ?? "/vault",
+    vaultRules: process.env["KNIGHT_VAULT_RULES"] ?? "Derek's Obsidian vault — write only to Briefings/ and Roundtable/",
+    fallbackModels: parseList(process.env["KNIGHT_FALLBACK_MODELS"] ?? ""),
+    modelAllowlist: parseList(process.env["KNIGHT_MODEL_ALLOWLIST"] ?? ""),
+    thinkingAllowlist: parseList(process.env["KNIGHT_THINKING_ALLOWLIST"] ?? ""),
     maxRetryDelayMs: parseInt(process.env["MAX_RETRY_DELAY_MS"] ?? "60000", 10),
     thinkingBudgetLow: parseInt(process.env["THINKING_BUDGET_LOW"] ?? "1024", 10),
     thinkingBudgetMedium: parseInt(process.env["THINKING_BUDGET_MEDIUM"] ?? "4096", 10),
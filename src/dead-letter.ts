@@ -0,0 +1,262 @@
+/**
+ * Dead-letter stream: replay.
+ *
+ * Tasks that can never run (empty payload) or that failed for good (processTask threw
+ * on the last attempt) are republished by nats.ts to `<DEAD_LETTER_SUBJECT>.<knight>.<taskId>`
+ * with their original payload and failure metadata in headers. This module makes sure
+ * the stream holding them exists and answers replay requests on
+ *
+ *   <prefix>.deadletter-replay.<knight>   payload {"task_ids": [...], "limit": 100}
+ *
+ * Each matching dead letter is published back to the subject it was first dispatched on,
+ * byte-for-byte, then removed from the dead-letter stream. Omitting task_ids replays this
+ * knight's oldest dead letters up to `limit`.
+ *
+ * In at-least-once mode a task can also run out of deliveries without processTask ever
+ * seeing its last attempt fail: the pod died or hung mid-task until ack_wait expired. The
+ * server then stops redelivering and emits a MAX_DELIVERIES advisory; this module listens
+ * for it and dead-letters the message from the tasks stream.
+ */
+import { headers as natsHeaders, type Subscription } from "nats";
+import { natsPrefix, type KnightConfig } from "./config.js";
+import { log } from "./logger.js";
+import {
+  consumerConfigFor,
+  DEAD_LETTER_HEADERS,
+  envelopeTaskId,
+  getConnection,
+  getJetStream,
+  publishDeadLetter,
+  StringCodec,
+  type ParsedTask,
+} from "./nats.js";
+
+const sc = StringCodec();
+
+const DEFAULT_REPLAY_LIMIT = 100;
+const MAX_REPLAY_LIMIT = 1000;
+/** How long a replay waits for the stream to hand over matching messages. */
+const REPLAY_FETCH_EXPIRES_MS = 3000;
+/** Dead letters are kept this long before the stream ages them out. */
+const DEAD_LETTER_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+export interface ReplayRequest {
+  /** Specific tasks to replay; empty means "the oldest `limit` dead letters". */
+  taskIds: string[];
+  limit: number;
+}
+
+export interface ReplayResult {
+  knight: string;
+  replayed: string[];
+  /** Dead letters left in place, with the reason (e.g. no original subject). */
+  skipped: { taskId: string; reason: string }[];
+}
+
+/** A dead letter as fetched from the stream — the fields a replay reads. */
+export interface StoredDeadLetter {
+  seq: number;
+  subject: string;
+  data: Uint8Array;
+  headers?: { get(key: string): string };
+}
+
+/** Where a replay puts dead letters back, and how it removes them once they are. */
+export interface ReplaySink {
+  publish(subject: string, data: Uint8Array, headers: Record<string, string>): Promise<unknown>;
+  remove(seq: number): Promise<unknown>;
+}
+
+/** The parts of a MAX_DELIVERIES advisory that locate the exhausted message. */
+export interface MaxDeliveriesAdvisory {
+  stream: string;
+  consumer: string;
+  streamSeq: number;
+  deliveries: number;
+}
+
+let sub: Subscription | null = null;
+let advisorySub: Subscription | null = null;
+
+/** Parse a replay request. An empty or non-JSON payload replays with the defaults. */
+export function parseReplayRequest(data: string): ReplayRequest {
+  let body: Record<string, unknown> = {};
+  try {
+    const json = data.trim() ? JSON.parse(data) : {};
+    if (json && typeof json === "object") body = json;
+  } catch {
+    // fall through to defaults
+  }
+  const ids = body.task_ids ?? body.taskIds;
+  const taskIds = Array.isArray(ids)
+    ? ids.filter((id): id is string => typeof id === "string" && id.trim() !== "").map((id) => id.trim())
+    : [];
+  const limit = typeof body.limit === "number" && Number.isInteger(body.limit) && body.limit > 0
+    ? Math.min(body.limit, MAX_REPLAY_LIMIT)
+    : DEFAULT_REPLAY_LIMIT;
+  return { taskIds, limit };
+}
+
+/** Create the dead-letter stream if it doesn't exist yet. Knights share it per table. */
+async function ensureDeadLetterStream(config: KnightConfig): Promise<void> {
+  const nc = getConnection();
+  if (!nc) return;
+  const jsm = await nc.jetstreamManager();
+  try {
+    await jsm.streams.info(config.deadLetterStream);
+  } catch {
+    await jsm.streams.add({
+      name: config.deadLetterStream,
+      subjects: [`${config.deadLetterSubject}.>`],
+      max_age: DEAD_LETTER_MAX_AGE_MS * 1_000_000, // nanoseconds
+    });
+    log.info("Dead-letter stream created", { stream: config.deadLetterStream, subject: `${config.deadLetterSubject}.>` });
+  }
+}
+
+export async function replayDeadLetters(config: KnightConfig, req: ReplayRequest): Promise<ReplayResult> {
+  const nc = getConnection();
+  const js = getJetStream();
+  if (!nc || !js) throw new Error("NATS not connected");
+  const jsm = await nc.jetstreamManager();
+
+  const base = `${config.deadLetterSubject}.${config.knightName}`;
+  const filterSubjects = req.taskIds.length > 0 ? req.taskIds.map((id) => `${base}.${id}`) : [`${base}.>`];
+  const limit = req.taskIds.length > 0 ? Math.min(req.taskIds.length, req.limit) : req.limit;
+
+  // Ordered consumer: ephemeral, read-only — the dead letters are removed explicitly
+  // once their replay is published, so a failed replay leaves them in place.
+  const consumer = await js.consumers.get(config.deadLetterStream, { filterSubjects });
+  const batch = await consumer.fetch({ max_messages: limit, expires: REPLAY_FETCH_EXPIRES_MS });
+  return replayLetters(config, batch, {
+    publish: async (subject, data, headers) => {
+      const h = natsHeaders();
+      for (const [key, value] of Object.entries(headers)) h.set(key, value);
+      await js.publish(subject, data, { headers: h });
+    },
+    remove: (seq) => jsm.streams.deleteMessage(config.deadLetterStream, seq),
+  });
+}
+
+/**
+ * Put each dead letter back on its original subject, then remove it. A letter with no
+ * recorded subject is skipped and left in place; a failed publish stops the replay before
+ * that letter is removed.
+ */
+export async function replayLetters(
+  config: KnightConfig,
+  letters: AsyncIterable<StoredDeadLetter>,
+  sink: ReplaySink,
+): Promise<ReplayResult> {
+  const base = `${config.deadLetterSubject}.${config.knightName}`;
+  const result: ReplayResult = { knight: config.knightName, replayed: [], skipped: [] };
+  for await (const letter of letters) {
+    const taskId = letter.headers?.get(DEAD_LETTER_HEADERS.taskId) || letter.subject.slice(base.length + 1);
+    const target = letter.headers?.get(DEAD_LETTER_HEADERS.subject);
+    if (!target) {
+      result.skipped.push({ taskId, reason: "original subject unknown" });
+      continue;
+    }
+    await sink.publish(target, letter.data, { "Pi-Knight-Replayed-From": `${config.deadLetterStream}:${letter.seq}` });
+    await sink.remove(letter.seq);
+    result.replayed.push(taskId);
+  }
+  return result;
+}
+
+/** The subject JetStream announces this knight's exhausted task messages on. */
+export function maxDeliveriesSubject(config: KnightConfig): string {
+  return `$JS.EVENT.ADVISORY.CONSUMER.MAX_DELIVERIES.${config.natsTasksStream}.${consumerConfigFor(config).durable_name}`;
+}
+
+/** Parse a MAX_DELIVERIES advisory; null when it doesn't name a message. */
+export function parseMaxDeliveriesAdvisory(data: string): MaxDeliveriesAdvisory | null {
+  try {
+    const json = JSON.parse(data);
+    if (!json || typeof json.stream_seq !== "number" || json.stream_seq <= 0) return null;
+    return {
+      stream: String(json.stream ?? ""),
+      consumer: String(json.consumer ?? ""),
+      streamSeq: json.stream_seq,
+      deliveries: typeof json.deliveries === "number" ? json.deliveries : 0,
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * The task a stored tasks-stream message carried, as far as a dead letter needs it: the
+ * raw payload and subject, and the task ID from the payload or the subject's last token.
+ */
+export function storedTask(subject: string, raw: string): ParsedTask {
+  const taskId = envelopeTaskId(raw) ?? subject.split(".").pop() ?? "unknown";
+  return { task: "", taskId, subject, raw };
+}
+
+/** Dead-letter the task message a MAX_DELIVERIES advisory points at. */
+async function deadLetterExhausted(config: KnightConfig, advisory: MaxDeliveriesAdvisory): Promise<void> {
+  const nc = getConnection();
+  if (!nc) return;
+  const jsm = await nc.jetstreamManager();
+  const stored = await jsm.streams.getMessage(config.natsTasksStream, { seq: advisory.streamSeq });
+  const task = storedTask(stored.subject, sc.decode(stored.data));
+  await publishDeadLetter(task, {
+    kind: "failed",
+    reason: `no attempt finished within ${advisory.deliveries} deliveries (timed out, or the knight stopped mid-task)`,
+    attempt: advisory.deliveries,
+  });
+}
+
+export async function startDeadLetterReplay(config: KnightConfig): Promise<void> {
+  const nc = getConnection();
+  if (!config.deadLetterSubject) return;
+  if (!nc) {
+    log.warn("Cannot start dead-letter replay responder — NATS not connected");
+    return;
+  }
+
+  try {
+    await ensureDeadLetterStream(config);
+  } catch (err) {
+    // Dead-letter publishes will fail (and be logged) until the stream exists; tasks
+    // themselves are unaffected.
+    log.error("Dead-letter stream setup failed", { stream: config.deadLetterStream, error: String(err) });
+  }
+
+  if (config.taskDeliveryMode === "at-least-once") {
+    const advisorySubject = maxDeliveriesSubject(config);
+    advisorySub = nc.subscribe(advisorySubject);
+    log.info("Watching for exhausted task deliveries", { subject: advisorySubject });
+    (async () => {
+      for await (const msg of advisorySub) {
+        const advisory = parseMaxDeliveriesAdvisory(sc.decode(msg.data));
+        if (!advisory) continue;
+        try {
+          await deadLetterExhausted(config, advisory);
+        } catch (err) {
+          log.error("Dead-lettering an exhausted task failed", { streamSeq: advisory.streamSeq, error: String(err) });
+        }
+      }
+    })();
+  }
+
+  const subject = `${natsPrefix(config)}.deadletter-replay.${config.knightName}`;
+  sub = nc.subscribe(subject);
+  log.info("Dead-letter replay responder started", { subject, stream: config.deadLetterStream });
+
+  (async () => {
+    for await (const msg of sub) {
+      try {
+        const req = parseReplayRequest(sc.decode(msg.data));
+        const result = await replayDeadLetters(config, req);
+        log.info("Dead letters replayed", { count: result.replayed.length, taskIds: result.replayed, skipped: result.skipped.length });
+        if (msg.reply) msg.respond(sc.encode(JSON.stringify(result)));
+      } catch (err) {
+        const errMsg = err instanceof Error ? err.message : String(err);
+        log.error("Dead-letter replay error", { error: errMsg });
+        if (msg.reply) msg.respond(sc.encode(JSON.stringify({ error: errMsg })));
+      }
+    }
+  })();
+}
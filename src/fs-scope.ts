@@ -0,0 +1,315 @@
+/**
+ * Filesystem scoping for write, edit and bash.
+ *
+ * The preamble tells a knight where it may write; this makes it so. A `write` or `edit`
+ * path is resolved the way the kernel will resolve it — relative to /data, `..` and
+ * symlinks followed component by component, so `Briefings/../../etc/x` or a link out of
+ * the vault don't slip through — and must land under one of FS_WRITABLE_ROOTS. Under an
+ * FS_READONLY_ROOTS entry it is refused even so, unless a writable root is nested deeper:
+ * with `/vault` read-only and `/vault/Briefings` writable, the most specific root decides.
+ *
+ * `bash` gets a best-effort version of the same check: output redirections and the
+ * targets of `cp`, `mv`, `rm` and `tee` are pulled out of the command and checked.
+ * Anything built at run time (`$VAR`, command substitution, `eval`, scripts) is out of its
+ * reach — the container's read-only root filesystem is the backstop.
+ */
+import { lstatSync, readlinkSync } from "node:fs";
+import { posix } from "node:path";
+import type { KnightConfig } from "./config.js";
+import { log } from "./logger.js";
+
+/** Relative paths in tool arguments (and bash's starting directory). */
+const WORKSPACE = "/data";
+
+/** Symlinks followed before a path is given up on as a loop. */
+const MAX_SYMLINKS = 40;
+
+/** Device files a command may always write to. */
+const DEVICE_SINKS = /^\/dev\/(?:null|stdout|stderr|tty|fd\/\d+)$/;
+
+export class FsScope {
+  readonly writable: string[];
+  readonly readOnly: string[];
+
+  constructor(writable: string[], readOnly: string[]) {
+    // Roots may themselves be symlinks (a PVC mount, say): compare real paths.
+    this.writable = writable.map((root) => resolveRealPath(root, "/"));
+    this.readOnly = readOnly.map((root) => resolveRealPath(root, "/"));
+  }
+
+  /** Why writing `path` is refused, or undefined if it is allowed. */
+  checkWrite(path: string, cwd = WORKSPACE): string | undefined {
+    if (!path.trim()) return undefined; // the tool itself rejects an empty path
+    let real: string;
+    try {
+      real = resolveRealPath(expandHome(path), cwd);
+    } catch (err) {
+      return `${path} can't be resolved (${err instanceof Error ? err.message : String(err)})`;
+    }
+    if (DEVICE_SINKS.test(real)) return undefined;
+    const writable = deepestRoot(this.writable, real);
+    const readOnly = deepestRoot(this.readOnly, real);
+    const shown = real === path ? path : `${path} (${real})`;
+    if (readOnly && (!writable || readOnly.length > writable.length)) return `${shown} is under read-only ${readOnly}`;
+    if (!writable) return `${shown} is outside the writable paths`;
+    return undefined;
+  }
+
+  /** Why a bash command is refused, or undefined if none of the writes it names are out of scope. */
+  checkBash(command: string): string | undefined {
+    for (const { path, cwd } of bashWriteTargets(command)) {
+      const problem = this.checkWrite(path, cwd);
+      if (problem) return problem;
+    }
+    return undefined;
+  }
+}
+
+/**
+ * Resolve `path` against `cwd` as the kernel would: `..` applies to the directory a
+ * symlink points to, not the link's parent. Components that don't exist yet are taken
+ * as written. Throws on a symlink loop.
+ */
+export function resolveRealPath(path: string, cwd = WORKSPACE): string {
+  return walk(posix.isAbsolute(path) ? path : `${cwd}/${path}`, 0);
+}
+
+function walk(abs: string, links: number): string {
+  let current = "/";
+  for (const part of abs.split("/")) {
+    if (part === "" || part === ".") continue;
+    if (part === "..") {
+      current = posix.dirname(current);
+      continue;
+    }
+    const next = posix.join(current, part);
+    let target: string | undefined;
+    try {
+      if (lstatSync(next).isSymbolicLink()) target = readlinkSync(next);
+    } catch {
+      // Doesn't exist (yet) — nothing to follow.
+    }
+    if (target === undefined) {
+      current = next;
+      continue;
+    }
+    if (links >= MAX_SYMLINKS) throw new Error(`too many levels of symbolic links at ${next}`);
+    current = walk(posix.isAbsolute(target) ? target : `${current}/${target}`, links + 1);
+  }
+  return current;
+}
+
+/** A write a bash command names, with the directory it is relative to. */
+export interface BashWriteTarget {
+  path: string;
+  cwd: string;
+}
+
+/**
+ * Paths a bash command writes to, as far as a static look can tell: redirection targets
+ * (`>`, `>>`, `&>`, `2>`), and the targets of `cp`/`mv` (the last operand or `-t DIR`),
+ * `rm` and `tee`. A `cd` moves the directory later relative paths resolve against. Words
+ * with expansions (`$`, backticks) are skipped — their value isn't known until run time.
+ */
+export function bashWriteTargets(command: string, cwd = WORKSPACE): BashWriteTarget[] {
+  const targets: BashWriteTarget[] = [];
+  let dir = cwd;
+  const add = (word: string) => {
+    if (!/[$`]/.test(word)) targets.push({ path: word, cwd: dir });
+  };
+
+  for (const simple of splitCommands(tokenize(command))) {
+    const words: string[] = [];
+    for (let i = 0; i < simple.length; i++) {
+      const token = simple[i];
+      if (token.kind === "redirect") {
+        const target = simple[i + 1];
+        if (target?.kind === "word") {
+          i++;
+          // `<` reads; `>&2` duplicates a descriptor.
+          const dup = token.value.endsWith("&") && /^[\d-]$/.test(target.value);
+          if (!token.value.startsWith("<") && !dup) add(target.value);
+        }
+      } else if (token.kind === "word") {
+        words.push(token.value);
+      }
+    }
+
+    // Skip assignments and prefixes that run the command that follows.
+    while (words.length > 0 && (/^\w+=/.test(words[0]) || ["sudo", "command", "nohup", "time", "env", "exec"].includes(words[0]))) {
+      words.shift();
+    }
+    const [name, ...args] = words;
+    const program = name ? posix.basename(name) : "";
+    const operands: string[] = [];
+    let targetDir: string | undefined;
+    let endOfOptions = false;
+    for (let i = 0; i < args.length; i++) {
+      const arg = args[i];
+      if (!endOfOptions && arg === "--") endOfOptions = true;
+      else if (!endOfOptions && (arg === "-t" || arg === "--target-directory")) targetDir = args[++i];
+      else if (!endOfOptions && arg.startsWith("--target-directory=")) targetDir = arg.slice("--target-directory=".length);
+      else if (endOfOptions || !arg.startsWith("-")) operands.push(arg);
+    }
+
+    if (program === "cd") {
+      const to = operands[0];
+      if (to && !/[$`]/.test(to)) dir = posix.resolve(dir, expandHome(to));
+    } else if (program === "cp" || program === "mv") {
+      if (targetDir !== undefined) add(targetDir);
+      else if (operands.length >= 2) add(operands[operands.length - 1]);
+    } else if (program === "rm" || program === "tee") {
+      for (const operand of operands) add(operand);
+    }
+  }
+  return targets;
+}
+
+// ─── Module state ──────────────────────────────────────────────────
+
+let scope: FsScope | null = null;
+
+/** Set up scoping from FS_WRITABLE_ROOTS / FS_READONLY_ROOTS (startup). No writable roots disables it. */
+export function initFsScope(config: KnightConfig): FsScope | null {
+  if (config.fsWritableRoots.length === 0) {
+    log.warn("Filesystem scoping disabled — FS_WRITABLE_ROOTS is empty");
+    scope = null;
+    return null;
+  }
+  scope = new FsScope(config.fsWritableRoots, config.fsReadOnlyRoots);
+  log.info("Filesystem scoping enabled", { writable: scope.writable, readOnly: scope.readOnly });
+  return scope;
+}
+
+/** The active scope, or null when writes aren't restricted. */
+export function getFsScope(): FsScope | null {
+  return scope;
+}
+
+// ─── Helpers ───────────────────────────────────────────────────────
+
+interface Token {
+  kind: "word" | "redirect" | "separator";
+  value: string;
+}
+
+/**
+ * Split a command into words, redirection operators and command separators. Quotes and
+ * backslashes are removed the way the shell would; heredoc bodies are skipped.
+ */
+function tokenize(command: string): Token[] {
+  const tokens: Token[] = [];
+  const heredocs: string[] = [];
+  let word = "";
+  let inWord = false;
+  const endWord = () => {
+    if (inWord) tokens.push({ kind: "word", value: word });
+    word = "";
+    inWord = false;
+  };
+
+  for (let i = 0; i < command.length; i++) {
+    const c = command[i];
+    if (c === "\\" && i + 1 < command.length) {
+      if (command[i + 1] !== "\n") word += command[i + 1];
+      inWord = true;
+      i++;
+    } else if (c === "'") {
+      const end = command.indexOf("'", i + 1);
+      const stop = end === -1 ? command.length : end;
+      word += command.slice(i + 1, stop);
+      inWord = true;
+      i = stop;
+    } else if (c === '"') {
+      let j = i + 1;
+      while (j < command.length && command[j] !== '"') {
+        if (command[j] === "\\" && j + 1 < command.length) j++;
+        word += command[j];
+        j++;
+      }
+      inWord = true;
+      i = j;
+    } else if (c === "#" && !inWord) {
+      while (i + 1 < command.length && command[i + 1] !== "\n") i++;
+    } else if (c === " " || c === "\t") {
+      endWord();
+    } else if (c === "\n") {
+      endWord();
+      tokens.push({ kind: "separator", value: c });
+      // Heredoc bodies start on the next line and run to their delimiter.
+      while (heredocs.length > 0) {
+        const delimiter = heredocs.shift()!;
+        let end = i;
+        do {
+          const next = command.indexOf("\n", end + 1);
+          const line = command.slice(end + 1, next === -1 ? command.length : next);
+          end = next === -1 ? command.length : next;
+          if (line.replace(/^\t+/, "") === delimiter) break;
+        } while (end < command.length);
+        i = end;
+      }
+    } else if (c === ";" || c === "|" || c === "&" || c === "(" || c === ")") {
+      // `&>` and `&>>` are redirections; everything else here ends a command.
+      if (c === "&" && command[i + 1] === ">") {
+        endWord();
+        const op = command[i + 2] === ">" ? "&>>" : "&>";
+        tokens.push({ kind: "redirect", value: op });
+        i += op.length - 1;
+        continue;
+      }
+      endWord();
+      if (command[i + 1] === c && (c === "|" || c === "&" || c === ";")) i++;
+      tokens.push({ kind: "separator", value: c });
+    } else if (c === ">" || c === "<") {
+      // A word made only of digits right before the operator is its file descriptor.
+      if (inWord && !/^\d+$/.test(word)) endWord();
+      word = "";
+      inWord = false;
+      let op = c;
+      while (command[i + 1] === c || command[i + 1] === "|" || (c === "<" && command[i + 1] === "-" && op === "<<")) {
+        op += command[++i];
+        if (op === "<<<") break;
+      }
+      if (op === "<<" || op === "<<-") {
+        const match = /^\s*(['"]?)([^\s'";&|<>]+)\1/.exec(command.slice(i + 1));
+        if (match) {
+          heredocs.push(match[2]);
+          i += match[0].length;
+        }
+        continue;
+      }
+      // `>&` duplicates a descriptor (or, with a word, redirects both like `&>`).
+      if (command[i + 1] === "&") {
+        op += "&";
+        i++;
+      }
+      tokens.push({ kind: "redirect", value: op });
+    } else {
+      word += c;
+      inWord = true;
+    }
+  }
+  endWord();
+  return tokens;
+}
+
+function splitCommands(tokens: Token[]): Token[][] {
+  const commands: Token[][] = [[]];
+  for (const token of tokens) {
+    if (token.kind === "separator") commands.push([]);
+    else commands[commands.length - 1].push(token);
+  }
+  return commands.filter((c) => c.length > 0);
+}
+
+function deepestRoot(roots: string[], path: string): string | undefined {
+  return roots
+    .filter((root) => path === root || path.startsWith(root === "/" ? "/" : `${root}/`))
+    .sort((a, b) => b.length - a.length)[0];
+}
+
+function expandHome(path: string): string {
+  const home = process.env["HOME"];
+  if (!home) return path;
+  return path === "~" ? home : path.startsWith("~/") ? `${home}${path.slice(1)}` : path;
+}
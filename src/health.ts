@@ -3,6 +3,7 @@ import type { KnightConfig } from "./config.js";
 import { registry } from "./metrics.js";
 import { getStatus as getNatsStatus } from "./nats.js";
 import { handleIntrospect } from "./introspect.js";
+import { getHotReloader } from "./reload.js";
 
 let server: http.Server | null = null;
 let skillCount = 0;
@@ -57,12 +58,24 @@ export function startHealthServer(config: KnightConfig): void {
         | "recent"
         | "tree"
         | "history"
-        | "session";
+        | "session"
+        | "queue"
+        | "preamble";
       const limit = parseInt(urlObj.searchParams.get("limit") ?? "20", 10);
       const id = urlObj.searchParams.get("id") ?? undefined;
       const result = await handleIntrospect({ type, limit, id }, config);
       res.writeHead(200, { "Content-Type": "application/json" });
       res.end(JSON.stringify(result, null, 2));
+    } else if (url === "/reload" && req.method === "POST") {
+      const reloader = getHotReloader();
+      if (!reloader) {
+        res.writeHead(503, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: "reloader not started" }));
+        return;
+      }
+      const outcome = await reloader.reload("http");
+      res.writeHead(outcome.ok ? 200 : 500, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ knight: config.knightName, ...outcome }));
     } else if (url === "/metrics") {
       try {
         const metrics = await registry.metrics();
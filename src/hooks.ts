@@ -14,30 +14,11 @@ import type {
 import type { AgentSession } from "@earendil-works/pi-coding-agent";
 import { log } from "./logger.js";
 import { toolCallsTotal, toolCallDuration, toolCallErrors, toolCallsBlocked } from "./metrics.js";
-
-// ─── Dangerous operation patterns ───────────────────────────────────
-
-/** Bash commands that should be blocked outright */
-const BLOCKED_BASH_PATTERNS: Array<{ pattern: RegExp; reason: string }> = [
-  { pattern: /\brm\s+-rf\s+\/(?!\w)/, reason: "Recursive delete at root level" },
-  { pattern: /\bgit\s+push\s+.*--force(?!\s*-with-lease)/, reason: "Force push without lease (use --force-with-lease or new commits)" },
-  { pattern: /\bgit\s+push\s+.*-f\b/, reason: "Force push (use new commits instead)" },
-  { pattern: /\bchmod\s+777\b/, reason: "World-writable permissions" },
-  { pattern: /\bcurl\b.*\|\s*(?:ba)?sh/, reason: "Piping remote script to shell" },
-  { pattern: /\bdd\s+.*of=\/dev\//, reason: "Direct device write" },
-  { pattern: /\bmkfs\b/, reason: "Filesystem format" },
-];
-
-/** Patterns that indicate secrets in tool output */
-const SECRET_PATTERNS: RegExp[] = [
-  /(?:api[_-]?key|apikey|secret[_-]?key|access[_-]?token|auth[_-]?token|bearer)\s*[:=]\s*['"]?[A-Za-z0-9_\-/.+=]{20,}/gi,
-  /-----BEGIN (?:RSA |EC |DSA |OPENSSH )?PRIVATE KEY-----/gi,
-  /ghp_[A-Za-z0-9_]{36,}/g,     // GitHub PATs
-  /ghs_[A-Za-z0-9_]{36,}/g,     // GitHub app tokens
-  /sk-[A-Za-z0-9]{40,}/g,       // OpenAI keys
-  /xoxb-[A-Za-z0-9\-]+/g,       // Slack bot tokens
-  /AKIA[A-Z0-9]{16}/g,          // AWS access keys
-];
+import { getToolPolicy } from "./tool-policy.js";
+import { getFsScope } from "./fs-scope.js";
+import { requestApproval } from "./approvals.js";
+import { getAuditLog } from "./audit.js";
+import { getRedactor } from "./redact.js";
 
 // ─── Timing tracker ────────────────────────────────────────────────
 
@@ -46,11 +27,13 @@ const toolStartTimes = new Map<string, number>();
 // ─── Hook implementations ──────────────────────────────────────────
 
 /**
- * Called before every tool execution. Can block dangerous operations.
+ * Called before every tool execution. Can block dangerous operations, or hold them for
+ * a human decision. `taskId` is the task the session is running, if any.
  */
 async function beforeToolCall(
   context: BeforeToolCallContext,
   signal?: AbortSignal,
+  taskId?: string,
 ): Promise<BeforeToolCallResult | undefined> {
   const { toolCall, args } = context;
   const toolName = toolCall.name;
@@ -65,41 +48,74 @@ async function beforeToolCall(
     argsPreview: truncateArgs(args),
   });
 
-  // Check bash commands for dangerous patterns
-  if (toolName === "bash" || toolName === "Bash") {
-    const command = (args as any)?.command ?? (args as any)?.input ?? "";
-    for (const { pattern, reason } of BLOCKED_BASH_PATTERNS) {
-      if (pattern.test(command)) {
-        log.warn("Blocked dangerous bash command", {
-          tool: toolName,
-          toolCallId,
-          reason,
-          command: command.slice(0, 200),
-        });
-        toolCallsBlocked.inc({ tool: toolName, reason });
-        return {
-          block: true,
-          reason: `🛡️ Blocked: ${reason}. This operation is not allowed for safety. Use a safer alternative.`,
-        };
-      }
+  // Apply the tool policy (see tool-policy.ts)
+  const decision = getToolPolicy().evaluate(toolName, args);
+  const why = decision.reason ?? `tool policy rule "${decision.rule}"`;
+  if (decision.action === "deny") {
+    log.warn("Tool call denied by policy", {
+      tool: toolName,
+      toolCallId,
+      rule: decision.rule,
+      reason: decision.reason,
+      argsPreview: truncateArgs(args),
+    });
+    toolCallsBlocked.inc({ tool: toolName, reason: decision.reason ?? decision.rule, rule: decision.rule });
+    return {
+      block: true,
+      reason: `🛡️ Blocked: ${why}. This operation is not allowed for safety. Use a safer alternative.`,
+    };
+  }
+
+  // Keep writes inside the writable roots (see fs-scope.ts)
+  const scope = getFsScope();
+  if (scope) {
+    const name = toolName.toLowerCase();
+    const problem = name === "write" || name === "edit"
+      ? scope.checkWrite(String((args as any)?.path ?? (args as any)?.file_path ?? ""))
+      : name === "bash"
+        ? scope.checkBash(String((args as any)?.command ?? (args as any)?.input ?? ""))
+        : undefined;
+    if (problem) {
+      log.warn("Blocked write outside filesystem scope", { tool: toolName, toolCallId, problem });
+      toolCallsBlocked.inc({ tool: toolName, reason: "fs_scope", rule: "" });
+      return {
+        block: true,
+        reason: `🛡️ Blocked: ${problem}. Write only under ${scope.writable.join(", ")}.`,
+      };
     }
   }
 
   // Check write tool for attempts to write secrets
   if (toolName === "write" || toolName === "Write") {
     const content = (args as any)?.content ?? "";
-    for (const pattern of SECRET_PATTERNS) {
-      if (pattern.test(content)) {
-        log.warn("Blocked secret write", {
-          tool: toolName,
-          toolCallId,
-        });
-        toolCallsBlocked.inc({ tool: toolName, reason: "secret_in_content" });
-        return {
-          block: true,
-          reason: "🛡️ Blocked: Content appears to contain secrets/credentials. Never write secrets to files.",
-        };
-      }
+    if (getRedactor().containsSecret(content)) {
+      log.warn("Blocked secret write", {
+        tool: toolName,
+        toolCallId,
+      });
+      toolCallsBlocked.inc({ tool: toolName, reason: "secret_in_content", rule: "" });
+      return {
+        block: true,
+        reason: "🛡️ Blocked: Content appears to contain secrets/credentials. Never write secrets to files.",
+      };
+    }
+  }
+
+  // Hold the call for a human decision only once nothing above has refused it
+  if (decision.action === "ask") {
+    const approval = await requestApproval(
+      { id: toolCallId, taskId, tool: toolName, args, rule: decision.rule, reason: decision.reason },
+      signal,
+    );
+    if (!approval.approved) {
+      toolCallsBlocked.inc({ tool: toolName, reason: decision.reason ?? decision.rule, rule: decision.rule });
+      const by = approval.by ? ` by ${approval.by}` : "";
+      return {
+        block: true,
+        reason: approval.outcome === "denied"
+          ? `🛡️ Denied${by}: ${approval.reason ?? why}. Do not retry this call; find another way or report that it was denied.`
+          : `🛡️ Blocked: ${why} needs human approval, and none was given (${approval.reason}). Use a different approach.`,
+      };
     }
   }
 
@@ -137,21 +153,13 @@ async function afterToolCall(
     resultSize: JSON.stringify(result.content).length,
   });
 
-  // Sanitize secrets from tool results
+  // Sanitize secrets from tool results — known values, token shapes, random-looking tokens
   let needsSanitization = false;
   const sanitizedContent = result.content.map((block) => {
     if (block.type === "text" && typeof block.text === "string") {
-      let text = block.text;
-      for (const pattern of SECRET_PATTERNS) {
-        // Reset lastIndex for global patterns
-        pattern.lastIndex = 0;
-        if (pattern.test(text)) {
-          needsSanitization = true;
-          pattern.lastIndex = 0;
-          text = text.replace(pattern, "[REDACTED]");
-        }
-      }
-      if (text !== block.text) {
+      const { text, redactions } = getRedactor().redact(block.text);
+      if (redactions > 0) {
+        needsSanitization = true;
         return { ...block, text };
       }
     }
@@ -177,12 +185,48 @@ async function afterToolCall(
 
 // ─── Setup ─────────────────────────────────────────────────────────
 
+/** The task a session is running, for approval requests and the audit trail. */
+export interface ToolCallTask {
+  taskId: string;
+  runId?: string;
+}
+
 /**
- * Wire beforeToolCall and afterToolCall hooks into the agent session.
+ * Wire beforeToolCall and afterToolCall hooks into the agent session. Every call is
+ * recorded in the audit trail (see audit.ts) once the hooks have decided on it.
  */
-export function setupToolHooks(session: AgentSession): void {
-  session.agent.beforeToolCall = beforeToolCall;
-  session.agent.afterToolCall = afterToolCall;
+export function setupToolHooks(session: AgentSession, currentTask?: () => ToolCallTask | undefined): void {
+  session.agent.beforeToolCall = async (context, signal) => {
+    const task = currentTask?.();
+    const result = await beforeToolCall(context, signal, task?.taskId);
+    // A blocked call never reaches afterToolCall.
+    if (result?.block) toolStartTimes.delete(context.toolCall.id);
+    getAuditLog()?.record({
+      event: "before",
+      ...task,
+      tool: context.toolCall.name,
+      toolCallId: context.toolCall.id,
+      args: context.args,
+      outcome: result?.block ? "blocked" : "allowed",
+      blockedReason: result?.block ? result.reason : undefined,
+    });
+    return result;
+  };
+  session.agent.afterToolCall = async (context, signal) => {
+    const task = currentTask?.();
+    const startTime = toolStartTimes.get(context.toolCall.id);
+    const result = await afterToolCall(context, signal);
+    getAuditLog()?.record({
+      event: "after",
+      ...task,
+      tool: context.toolCall.name,
+      toolCallId: context.toolCall.id,
+      args: context.args,
+      outcome: context.isError ? "error" : "success",
+      durationMs: startTime ? Date.now() - startTime : undefined,
+    });
+    return result;
+  };
   log.info("Tool hooks installed (safety + observability)");
 }
 
@@ -0,0 +1,116 @@
+/**
+ * Idempotency store for duplicate-task suppression.
+ *
+ * Dispatchers retry, and nats_request mints a fresh task ID per call, so the same logical
+ * job can arrive twice under different task IDs. A task carrying an `idempotency_key` is
+ * checked here before it runs: if a task with the same key already succeeded within
+ * IDEMPOTENCY_TTL_MS, its result is republished to the duplicate's result subject instead
+ * of paying for the LLM run again.
+ *
+ * Only successful results are stored — a failed or cancelled run must stay retryable.
+ * Entries live in memory and in an append-only JSONL file on the PVC (so they survive a
+ * restart), bounded by IDEMPOTENCY_MAX_ENTRIES (oldest evicted first) and the TTL.
+ */
+import type { KnightConfig } from "./config.js";
+import { Journal, parseJsonLines } from "./journal.js";
+import { log } from "./logger.js";
+
+export interface IdempotencyEntry {
+  key: string;
+  /** Task ID of the run that produced the result. */
+  taskId: string;
+  storedAt: number;
+  /** The result as published. */
+  result: Record<string, unknown>;
+}
+
+/**
+ * Fold store lines into live entries, oldest first. Later lines for a key win; expired
+ * and malformed lines are dropped.
+ */
+export function replayStore(contents: string, now: number, ttlMs: number): IdempotencyEntry[] {
+  const entries = new Map<string, IdempotencyEntry>();
+  for (const rec of parseJsonLines(contents) as IdempotencyEntry[]) {
+    if (typeof rec?.key !== "string" || typeof rec.storedAt !== "number" || !rec.result) continue;
+    entries.delete(rec.key); // re-insert so Map order follows storedAt
+    if (now - rec.storedAt < ttlMs) entries.set(rec.key, rec);
+  }
+  return [...entries.values()];
+}
+
+export class IdempotencyStore {
+  // Map insertion order is storage order, so the first key is always the oldest.
+  private entries = new Map<string, IdempotencyEntry>();
+  private readonly journal: Journal<IdempotencyEntry>;
+
+  /** @param path JSONL file on the PVC; empty keeps the store in memory only. */
+  constructor(
+    path: string,
+    private readonly ttlMs: number,
+    private readonly maxEntries: number,
+  ) {
+    this.journal = new Journal(path, "Idempotency store", maxEntries);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Load live entries from disk and compact the file. Returns the number loaded. */
+  load(now = Date.now()): number {
+    const contents = this.journal.read();
+    if (contents === undefined) return 0;
+    const live = replayStore(contents, now, this.ttlMs).slice(-this.maxEntries);
+    this.entries = new Map(live.map((e) => [e.key, e]));
+    this.journal.rewrite(this.entries.values());
+    return this.entries.size;
+  }
+
+  /** The stored result for a key, or undefined if none or expired. */
+  get(key: string, now = Date.now()): IdempotencyEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    if (now - entry.storedAt >= this.ttlMs) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  set(key: string, taskId: string, result: Record<string, unknown>, now = Date.now()): void {
+    const entry: IdempotencyEntry = { key, taskId, storedAt: now, result };
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    this.journal.append(entry, () => this.entries.values());
+  }
+}
+
+/**
+ * The result a duplicate gets: the original's result re-addressed to the duplicate's task
+ * ID and marked as a replay. Cost and tokens are zeroed — nothing was spent on it, and
+ * dispatchers summing spend per result would otherwise count the original run twice.
+ */
+export function duplicateResult(entry: IdempotencyEntry, taskId: string, now = new Date()): Record<string, unknown> {
+  return {
+    ...entry.result,
+    task_id: taskId,
+    duplicate_of: entry.taskId,
+    cached: true,
+    duration_ms: 0,
+    cost: 0,
+    tokens: { input: 0, output: 0 },
+    tool_calls: 0,
+    timestamp: now.toISOString(),
+  };
+}
+
+/** Create the knight's idempotency store and load what a previous pod recorded. */
+export function initIdempotencyStore(config: KnightConfig): IdempotencyStore {
+  const store = new IdempotencyStore(config.idempotencyStorePath, config.idempotencyTtlMs, config.idempotencyMaxEntries);
+  const loaded = store.load();
+  if (loaded > 0) log.info("Idempotency store loaded", { entries: loaded, path: config.idempotencyStorePath });
+  return store;
+}
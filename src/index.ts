@@ -1,17 +1,36 @@
 import { loadConfig } from "./config.js";
 import { initLogger, log } from "./logger.js";
-import { connectNats, subscribe, publishResult, drain } from "./nats.js";
+import { connectNats, subscribe, publishResult, publishRedactedResult, publishDeadLetter, drain, withRedeliveryNotice, type ParsedTask } from "./nats.js";
 import { startHealthServer, stopHealthServer, setSkillCount, setActiveTaskCount, setDegradedReason } from "./health.js";
 import { loadSkills } from "@earendil-works/pi-coding-agent";
-import { executeTask, getActiveSession, warmSession } from "./knight.js";
+import { disposeSessions, executeTask, reloadSessions, steerTask, warmSession, type TaskAbortReason } from "./knight.js";
+import { startCancelResponder, type CancelRequest, type CancelState } from "./cancel.js";
+import { startSteerResponder } from "./steer.js";
+import { startDeadLetterReplay } from "./dead-letter.js";
 import { startIntrospect } from "./introspect.js";
+import { initHotReloader, startReloadResponder } from "./reload.js";
+import { initTaskQueue } from "./task-queue.js";
+import { duplicateResult, initIdempotencyStore, type IdempotencyEntry } from "./idempotency.js";
+import { initThreadStore } from "./threads.js";
+import { resolveBudget } from "./budget.js";
+import { initSpendLedger, type SpendStatus } from "./spend-ledger.js";
 import { resolveModel } from "./model.js";
 import { preflightModelUntilReady } from "./preflight.js";
+import { initToolPolicy } from "./tool-policy.js";
+import { initFsScope } from "./fs-scope.js";
+import { initApprovals } from "./approvals.js";
+import { initAuditLog } from "./audit.js";
+import { getRedactor, initRedactor } from "./redact.js";
 import * as metrics from "./metrics.js";
 
+/** Tries at publishing a task's result, and the delay before the second (it grows linearly). */
+const RESULT_PUBLISH_ATTEMPTS = 3;
+const RESULT_PUBLISH_RETRY_MS = 1000;
+
 async function main(): Promise<void> {
   const config = loadConfig();
   initLogger(config.knightName, config.logLevel);
+  initRedactor(config);
 
   log.info("Pi-Knight starting", {
     model: config.knightModel,
@@ -19,6 +38,11 @@ async function main(): Promise<void> {
     thinking: config.thinkingLevel,
   });
 
+  // Validate the tool policy before anything can run a tool — an invalid file is fatal.
+  initToolPolicy(config);
+  initFsScope(config);
+  initApprovals(config);
+
   // Start health/metrics HTTP server
   startHealthServer(config);
   log.info("Health server started", { port: config.metricsPort });
@@ -38,7 +62,7 @@ async function main(): Promise<void> {
 
   // Discover skills using Pi SDK's built-in agentskills.io loader
   // Retry for git-sync race at startup
-  let skillCount = 0;
+  let skillNames: string[] = [];
   const maxSkillAttempts = 20; // ~60s total — allows git-sync + skill-filter to complete
   for (let attempt = 0; attempt < maxSkillAttempts; attempt++) {
     const { skills, diagnostics } = loadSkills({
@@ -47,11 +71,11 @@ async function main(): Promise<void> {
       skillPaths: ["/skills"],
       includeDefaults: true,
     });
-    skillCount = skills.length;
-    if (skillCount > 0) {
+    skillNames = skills.map((s) => s.name);
+    if (skillNames.length > 0) {
       log.info("Skills loaded (Pi SDK)", {
-        count: skillCount,
-        names: skills.map((s) => s.name),
+        count: skillNames.length,
+        names: skillNames,
       });
       for (const d of diagnostics) {
         if (d.type === "warning") log.warn("Skill diagnostic", { message: d.message, path: d.path });
@@ -63,7 +87,7 @@ async function main(): Promise<void> {
       await new Promise((r) => setTimeout(r, 3000));
     }
   }
-  setSkillCount(skillCount);
+  setSkillCount(skillNames.length);
 
   // Pre-warm the agent session in the background (after skills so the session
   // snapshot includes them, before task subscribe so cold-start latency —
@@ -74,103 +98,415 @@ async function main(): Promise<void> {
   await connectNats(config);
   metrics.natsConnected.labels(config.knightName).set(1);
 
+  // Tool audit trail — the JetStream side needs the connection.
+  await initAuditLog(config);
+
   // Start introspection responder (zero-cost session queries)
   startIntrospect(config);
 
+  // Pick up skill and personality file changes without a restart (and on request).
+  const reloader = initHotReloader(config, skillNames, {
+    reloadSessions,
+    onReload: (outcome) => setSkillCount(outcome.skills.count),
+  });
+  startReloadResponder(config);
+
+  // Dead-letter stream setup and replay responder
+  await startDeadLetterReplay(config);
+
+  // Restore tasks queued (and journaled) by the previous pod before subscribing, so they
+  // run ahead of anything new.
+  const taskQueue = initTaskQueue(config);
+  metrics.queuedTasks.labels(config.knightName).set(taskQueue.length);
+  const idempotency = initIdempotencyStore(config);
+  const threads = initThreadStore(config);
+  const spend = initSpendLedger(config);
+  // Whether /ready is degraded because of a hard cap (so it's cleared once the period
+  // rolls over). The day turns over without a task arriving, so check on a timer too.
+  let spendCapped = false;
+  checkSpend();
+  setInterval(checkSpend, 60_000).unref();
+
   // Subscribe to task stream
   const tasks = await subscribe(config);
 
   // Task execution state
   let activeCount = 0;
-  const taskQueue: Array<{ task: string; taskId: string; timeoutMs?: number; runId?: string }> = [];
+  // Tasks currently executing, by task ID — so a cancel can reach the task's abort
+  // controller, and a forced shutdown can hand unacked messages back to JetStream.
+  const activeTasks = new Map<string, ActiveTask>();
   let shuttingDown = false;
+  // Idempotency keys currently running (key → task ID), and duplicates parked until the
+  // run holding their key finishes — then they re-enter the queue and either pick up the
+  // stored result or, if that run failed, run themselves.
+  const runningKeys = new Map<string, string>();
+  const parked = new Map<string, ParsedTask[]>();
 
   // Process a single task
-  async function processTask(taskText: string, taskId: string, timeoutMs: number, runId?: string): Promise<void> {
-    activeCount++;
-    setActiveTaskCount(activeCount);
-    metrics.activeTasks.labels(config.knightName).set(activeCount);
+  async function processTask(task: ParsedTask): Promise<void> {
+    const { taskId, runId, delivery, idempotencyKey } = task;
+    if (idempotencyKey) {
+      const stored = idempotency.get(idempotencyKey);
+      if (stored) {
+        answerDuplicate(task, stored);
+        return;
+      }
+      const owner = runningKeys.get(idempotencyKey);
+      if (owner) {
+        log.info("Duplicate of a running task — parked until it finishes", { taskId, idempotencyKey, runningTaskId: owner });
+        parked.set(idempotencyKey, [...(parked.get(idempotencyKey) ?? []), task]);
+        return;
+      }
+    }
+    const spendStatus = checkSpend();
+    if (spendStatus.hard) {
+      await rejectOverSpend(task, spendStatus.hard);
+      return;
+    }
+    // Past a soft cap the task still runs, on the cheaper model if one is configured.
+    const model = spendStatus.soft && config.spendDegradedModel ? config.spendDegradedModel : task.model;
+    if (spendStatus.soft) {
+      log.warn("Spend soft cap reached", { taskId, reason: spendStatus.soft, ...(model !== task.model ? { model } : {}) });
+    }
+    if (idempotencyKey) runningKeys.set(idempotencyKey, taskId);
+    const timeoutMs = task.timeoutMs ?? config.taskTimeoutMs;
+    const thread = threads.resolve(task);
+    if (thread) {
+      log.info("Task continues a thread", { taskId, threadId: thread.threadId, resumed: Boolean(thread.from) });
+    }
+    // A redelivered task may already have run partway; tell the agent so it checks
+    // before repeating side effects.
+    const taskText = delivery?.redelivered ? withRedeliveryNotice(task.task, delivery.attempt) : task.task;
 
     const startTime = Date.now();
     const controller = new AbortController();
-    const timeout = setTimeout(() => controller.abort(), timeoutMs);
+    // Armed once the task holds its session: waiting behind an earlier task of the same
+    // run isn't the task's own time.
+    let timeout: ReturnType<typeof setTimeout> | undefined;
+    const active: ActiveTask = { task, controller };
+
+    activeCount++;
+    activeTasks.set(taskId, active);
+    setActiveTaskCount(activeCount);
+    metrics.activeTasks.labels(config.knightName).set(activeCount);
 
     try {
-      const result = await executeTask(taskText, config, controller.signal, runId);
+      const result = await executeTask(taskText, config, {
+        signal: controller.signal,
+        runId,
+        taskId,
+        thread,
+        model,
+        thinking: task.thinking,
+        budget: resolveBudget(config, task),
+        outputSchema: task.outputSchema,
+        onStart: () => {
+          timeout = setTimeout(() => controller.abort("timeout" satisfies TaskAbortReason), timeoutMs);
+        },
+      });
       const durationMs = Date.now() - startTime;
+      if (result.session) threads.record(taskId, thread?.threadId, result.session);
+      spend.record("task", result.model, result.cost, taskId);
+      checkSpend();
+
+      // A cancelled task is reported as such even if the agent had produced some text
+      // before the abort — that text rides along as the partial result.
+      const cancelled = active.cancel;
+      const outcome: TaskOutcome = cancelled
+        ? "cancelled"
+        : result.budgetExceeded ? "budget_exceeded" : result.success ? "success" : "error";
+      const error = cancelled ? describeCancel(cancelled) : result.error;
 
-      await publishResult(taskId, {
+      // Redacted once, here: this copy is both published and stored (on the PVC) to answer
+      // duplicates, so neither path redacts it again.
+      const published = getRedactor().redactDeep({
         task_id: taskId,
         knight: config.knightName,
-        success: result.success,
-        result: result.result,
-        ...(result.error ? { error: result.error } : {}),
+        success: outcome === "success",
+        outcome,
+        result: cancelled && !result.success ? error : result.result,
+        ...(error ? { error } : {}),
         duration_ms: durationMs,
         cost: result.cost,
         tokens: result.tokens,
         model: result.model,
         tool_calls: result.toolCalls,
+        ...(result.data !== undefined ? { data: result.data } : {}),
+        ...(result.validationErrors ? { validation_errors: result.validationErrors } : {}),
+        ...(result.fallbacks ? { fallbacks: result.fallbacks } : {}),
+        ...(delivery ? { attempt: delivery.attempt } : {}),
+        ...(idempotencyKey ? { idempotency_key: idempotencyKey } : {}),
+        ...(thread ? { thread_id: thread.threadId } : {}),
         timestamp: new Date().toISOString(),
       });
+      // Only successes answer later duplicates; a failed run must stay retryable. Stored
+      // before publishing, so a redelivery after a failed publish answers from the store.
+      const stored = Boolean(idempotencyKey) && outcome === "success";
+      if (stored) idempotency.set(idempotencyKey!, taskId, published);
+      if (await publishFinalResult(taskId, published)) {
+        // The result is out — the dispatcher has its answer, so the message is done even
+        // when the agent reported failure. Redelivery is for work that never finished.
+        delivery?.ack();
+      } else if (stored && delivery?.canRetry) {
+        delivery.nak(config.taskNakDelayMs);
+      } else {
+        // The work finished; running it again would repeat its side effects. Keep the
+        // result on the dead-letter stream instead, where a replay can still deliver it.
+        log.error("Result not delivered — dead-lettering it", { taskId, ...(delivery ? { attempt: delivery.attempt } : {}) });
+        await publishDeadLetter(task, {
+          kind: "unpublished",
+          reason: "result publish failed",
+          attempt: delivery?.attempt,
+          result: published,
+        });
+        delivery?.ack();
+      }
 
       // Token/cost are recorded regardless — a no-output task still spent them. Only the
       // task-outcome counter reflects the honest success/failure. (#31)
-      metrics.tasksTotal.labels(config.knightName, result.success ? "success" : "error").inc();
+      metrics.tasksTotal.labels(config.knightName, outcome).inc();
       metrics.taskDuration.labels(config.knightName).observe(durationMs / 1000);
       metrics.llmCost.labels(config.knightName, result.model).inc(result.cost);
+      if (result.fallbacks) metrics.modelFallbacksTotal.labels(config.knightName).inc(result.fallbacks);
       metrics.tokensTotal.labels(config.knightName, "input").inc(result.tokens.input);
       metrics.tokensTotal.labels(config.knightName, "output").inc(result.tokens.output);
       metrics.tokensTotal.labels(config.knightName, "cached").inc(result.tokens.cacheRead);
     } catch (err: unknown) {
       const durationMs = Date.now() - startTime;
       const errMsg = err instanceof Error ? err.message : String(err);
-      log.error("Task failed", { taskId, error: errMsg });
 
-      await publishResult(taskId, {
+      const outcome: TaskOutcome = active.cancel ? "cancelled" : "error";
+      metrics.tasksTotal.labels(config.knightName, outcome).inc();
+      metrics.taskDuration.labels(config.knightName).observe(durationMs / 1000);
+
+      // at-least-once: hand the message back for another attempt instead of publishing a
+      // failure the dispatcher would treat as final. A cancelled task is never retried.
+      if (delivery?.canRetry && !active.cancel) {
+        log.warn("Task failed — will be redelivered", {
+          taskId,
+          error: errMsg,
+          attempt: delivery.attempt,
+          maxDeliver: delivery.maxDeliver,
+        });
+        delivery.nak(config.taskNakDelayMs);
+        return;
+      }
+      log.error("Task failed", { taskId, error: errMsg, ...(delivery ? { attempt: delivery.attempt } : {}) });
+
+      await publishFinalResult(taskId, getRedactor().redactDeep({
         task_id: taskId,
         knight: config.knightName,
         success: false,
-        result: `Task failed: ${errMsg}`,
+        outcome,
+        result: active.cancel ? describeCancel(active.cancel) : `Task failed: ${errMsg}`,
         duration_ms: durationMs,
         cost: 0,
         tokens: { input: 0, output: 0 },
-        model: config.knightModel,
+        model: model ?? config.knightModel,
+        ...(delivery ? { attempt: delivery.attempt } : {}),
         timestamp: new Date().toISOString(),
-      }).catch((e) => log.error("Failed to publish error result", { error: String(e) }));
-
-      metrics.tasksTotal.labels(config.knightName, "error").inc();
-      metrics.taskDuration.labels(config.knightName).observe(durationMs / 1000);
+      }));
+      // The error result may have no listener — keep the original task where it can be
+      // inspected and replayed. A cancellation is deliberate, not a failure.
+      if (!active.cancel) {
+        await publishDeadLetter(task, { kind: "failed", reason: errMsg, attempt: delivery?.attempt });
+      }
+      delivery?.term(`failed after ${delivery.attempt} attempt(s): ${errMsg}`);
     } finally {
       clearTimeout(timeout);
       activeCount--;
+      activeTasks.delete(taskId);
       setActiveTaskCount(activeCount);
       metrics.activeTasks.labels(config.knightName).set(activeCount);
 
-      if (taskQueue.length > 0 && activeCount < config.maxConcurrentTasks) {
-        const next = taskQueue.shift()!;
-        processTask(next.task, next.taskId, next.timeoutMs ?? config.taskTimeoutMs, next.runId);
+      if (idempotencyKey) {
+        runningKeys.delete(idempotencyKey);
+        for (const duplicate of parked.get(idempotencyKey) ?? []) taskQueue.push(duplicate);
+        parked.delete(idempotencyKey);
+      }
+      dispatchQueued();
+    }
+  }
+
+  // Start queued tasks while there is capacity. Stops once shutdown begins: whatever is
+  // still queued stays in the journal for the next pod.
+  function dispatchQueued(): void {
+    while (!shuttingDown && taskQueue.length > 0 && activeCount < config.maxConcurrentTasks) {
+      const next = taskQueue.shift()!;
+      const waitMs = Date.now() - next.enqueuedAt;
+      const priority = next.task.priority ?? "normal";
+      log.info("Dequeued task", { taskId: next.task.taskId, priority, waitMs, stillQueued: taskQueue.length });
+      metrics.queueWait.labels(config.knightName, priority).observe(waitMs / 1000);
+      metrics.queuedTasks.labels(config.knightName).set(taskQueue.length);
+      processTask(next.task);
+    }
+  }
+
+  // Publish a task's (already redacted) result, retrying a failed publish. Never throws: the
+  // task's own outcome is settled by now, and a publish failure must not turn into a task failure.
+  async function publishFinalResult(taskId: string, result: Record<string, unknown>): Promise<boolean> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await publishRedactedResult(taskId, result);
+        return true;
+      } catch (err) {
+        if (attempt >= RESULT_PUBLISH_ATTEMPTS) {
+          log.error("Failed to publish result", { taskId, attempts: attempt, error: String(err) });
+          return false;
+        }
+        log.warn("Result publish failed — retrying", { taskId, attempt, error: String(err) });
+        await new Promise((resolve) => setTimeout(resolve, RESULT_PUBLISH_RETRY_MS * attempt));
+      }
+    }
+  }
+
+  // A duplicate with a stored result: republish it under the duplicate's task ID.
+  function answerDuplicate(task: ParsedTask, stored: IdempotencyEntry): void {
+    log.info("Duplicate task — republishing stored result", {
+      taskId: task.taskId,
+      idempotencyKey: task.idempotencyKey,
+      duplicateOf: stored.taskId,
+    });
+    metrics.duplicateTasksTotal.labels(config.knightName).inc();
+    publishRedactedResult(task.taskId, duplicateResult(stored, task.taskId))
+      .then(() => task.delivery?.ack())
+      .catch((e) => {
+        log.error("Failed to publish stored result for duplicate", { taskId: task.taskId, error: String(e) });
+        task.delivery?.nak(config.taskNakDelayMs);
+      });
+  }
+
+  // Update the spend gauges and /ready from the ledger; returns the caps in effect.
+  function checkSpend(): SpendStatus {
+    const status = spend.status();
+    metrics.spendDollars.labels(config.knightName, "day").set(status.dailyUsd);
+    metrics.spendDollars.labels(config.knightName, "month").set(status.monthlyUsd);
+    if (status.hard) {
+      if (!spendCapped) log.error("Spend hard cap reached — rejecting new tasks", { reason: status.hard });
+      setDegradedReason(`spend cap reached: ${status.hard}`);
+      spendCapped = true;
+    } else if (spendCapped) {
+      log.info("Spend back under the hard caps — accepting tasks", { dailyUsd: status.dailyUsd, monthlyUsd: status.monthlyUsd });
+      setDegradedReason(null);
+      spendCapped = false;
+    }
+    return status;
+  }
+
+  // Over a hard cap: answer the task with a rejection instead of running it, and keep it
+  // in the dead-letter stream so it can be replayed once the cap resets.
+  async function rejectOverSpend(task: ParsedTask, reason: string): Promise<void> {
+    const error = `Task rejected: spend cap reached (${reason})`;
+    log.warn("Task rejected", { taskId: task.taskId, reason: error });
+    metrics.tasksTotal.labels(config.knightName, "rejected").inc();
+    await publishResult(task.taskId, {
+      task_id: task.taskId,
+      knight: config.knightName,
+      success: false,
+      outcome: "rejected" satisfies TaskOutcome,
+      result: error,
+      error,
+      duration_ms: 0,
+      cost: 0,
+      tokens: { input: 0, output: 0 },
+      model: task.model ?? config.knightModel,
+      timestamp: new Date().toISOString(),
+    }).catch((e) => log.error("Failed to publish rejection result", { taskId: task.taskId, error: String(e) }));
+    await publishDeadLetter(task, { kind: "failed", reason: error, attempt: task.delivery?.attempt });
+    task.delivery?.term("spend cap reached");
+  }
+
+  // Replayed tasks go first.
+  dispatchQueued();
+
+  // Cancellation: abort a running task's controller (processTask then publishes the
+  // cancelled result), or drop a queued task and publish its cancelled result here.
+  function cancelTask(req: CancelRequest): CancelState {
+    const active = activeTasks.get(req.taskId);
+    if (active) {
+      if (!active.cancel) {
+        active.cancel = req;
+        active.controller.abort("cancelled" satisfies TaskAbortReason);
       }
+      return "running";
     }
+
+    // Queued, or parked behind a running task with the same idempotency key.
+    const task = taskQueue.remove(req.taskId, "cancelled")?.task ?? unpark(req.taskId);
+    if (!task) return "not_found";
+    metrics.queuedTasks.labels(config.knightName).set(taskQueue.length);
+    const error = describeCancel(req);
+    metrics.tasksTotal.labels(config.knightName, "cancelled").inc();
+    publishResult(task.taskId, {
+      task_id: task.taskId,
+      knight: config.knightName,
+      success: false,
+      outcome: "cancelled" satisfies TaskOutcome,
+      result: error,
+      error,
+      duration_ms: 0,
+      cost: 0,
+      tokens: { input: 0, output: 0 },
+      model: task.model ?? config.knightModel,
+      timestamp: new Date().toISOString(),
+    })
+      .catch((e) => log.error("Failed to publish cancelled result", { taskId: task.taskId, error: String(e) }))
+      .finally(() => task.delivery?.ack());
+    return "queued";
+  }
+  startCancelResponder(config, cancelTask);
+
+  // Steering: only a running task's prompt can take a message; a queued one is reported
+  // as such so the sender can retry once it starts.
+  startSteerResponder(config, {
+    locate: (taskId) =>
+      activeTasks.has(taskId) ? "running"
+      : taskQueue.position(taskId) !== -1 || [...parked.values()].flat().some((t) => t.taskId === taskId) ? "queued"
+      : "not_found",
+    steer: steerTask,
+  });
+
+  // Take a parked duplicate out of the idempotency wait list.
+  function unpark(taskId: string): ParsedTask | undefined {
+    for (const [key, tasks] of parked) {
+      const idx = tasks.findIndex((t) => t.taskId === taskId);
+      if (idx === -1) continue;
+      const [task] = tasks.splice(idx, 1);
+      if (tasks.length === 0) parked.delete(key);
+      return task;
+    }
+    return undefined;
   }
 
   // Message loop
   (async () => {
     for await (const parsed of tasks) {
-      if (shuttingDown) break;
+      if (shuttingDown) {
+        // Not started. at-least-once: give it straight back so another replica picks it
+        // up. at-most-once: it's already acked — journal it for the next pod.
+        if (parsed.delivery) parsed.delivery.nak();
+        else taskQueue.push(parsed);
+        break;
+      }
 
       // Skip self-echo — ignore messages published by this knight back to its own topic
       if (parsed.from && parsed.from.toLowerCase() === config.knightName.toLowerCase()) {
         log.debug("Skipping self-echo", { taskId: parsed.taskId, from: parsed.from });
+        parsed.delivery?.ack();
         continue;
       }
 
-      const timeoutMs = parsed.timeoutMs ?? config.taskTimeoutMs;
-
       if (activeCount >= config.maxConcurrentTasks) {
-        log.info("At capacity, queuing task", { taskId: parsed.taskId, queueSize: taskQueue.length + 1 });
-        taskQueue.push({ task: parsed.task, taskId: parsed.taskId, timeoutMs, runId: parsed.runId });
+        taskQueue.push(parsed);
+        metrics.queuedTasks.labels(config.knightName).set(taskQueue.length);
+        log.info("At capacity, queuing task", {
+          taskId: parsed.taskId,
+          priority: parsed.priority,
+          position: taskQueue.position(parsed.taskId),
+          queueSize: taskQueue.length,
+        });
       } else {
-        processTask(parsed.task, parsed.taskId, timeoutMs, parsed.runId);
+        processTask(parsed);
       }
     }
   })();
@@ -179,6 +515,7 @@ async function main(): Promise<void> {
   const shutdown = async (signal: string) => {
     log.info("Shutdown signal received", { signal });
     shuttingDown = true;
+    reloader.stop();
 
     const maxWait = 60_000;
     const start = Date.now();
@@ -189,10 +526,25 @@ async function main(): Promise<void> {
       log.warn("Forcing shutdown with active tasks", { activeCount });
     }
 
-    // Dispose the session to abort any in-flight agent/compaction/retry/bash work
+    // at-least-once: queued tasks never started, and active ones are about to be cut off —
+    // nak both so JetStream redelivers them now instead of after ack_wait. at-most-once
+    // queued tasks are already in the journal and replay on the next start.
+    // Parked duplicates go back to the queue so they're handled like any other waiting task.
+    for (const task of [...parked.values()].flat()) taskQueue.push(task);
+    parked.clear();
+    const queued = taskQueue.snapshot();
+    for (const task of [...queued.map((e) => e.task), ...[...activeTasks.values()].map((a) => a.task)]) {
+      task.delivery?.nak();
+    }
+    const journaled = queued.filter((e) => !e.task.delivery).length;
+    if (journaled > 0) {
+      log.info("Queued tasks left in journal for replay", { count: journaled, path: config.taskQueueJournalPath });
+    }
+
+    // Dispose the sessions to abort any in-flight agent/compaction/retry/bash work
     // (pi 0.77+ disposal cancels in-flight work) before we tear down NATS.
     try {
-      getActiveSession()?.dispose();
+      disposeSessions();
     } catch (e) {
       log.error("Session dispose error", { error: String(e) });
     }
@@ -210,6 +562,21 @@ async function main(): Promise<void> {
   log.info("Pi-Knight ready");
 }
 
+interface ActiveTask {
+  task: ParsedTask;
+  controller: AbortController;
+  /** Set once a cancel request has aborted the task. */
+  cancel?: CancelRequest;
+}
+
+/** Outcome reported on every published result. */
+type TaskOutcome = "success" | "error" | "cancelled" | "budget_exceeded" | "rejected";
+
+function describeCancel(req: CancelRequest): string {
+  const by = req.cancelledBy ? ` by ${req.cancelledBy}` : "";
+  return `Task cancelled${by}${req.reason ? `: ${req.reason}` : ""}`;
+}
+
 main().catch((err) => {
   console.error("Fatal error:", err);
   process.exit(1);
@@ -3,20 +3,22 @@ import { join } from "node:path";
 import { log } from "./logger.js";
 import { getConnection } from "./nats.js";
 import { getActiveSession } from "./knight.js";
+import { getTaskQueue } from "./task-queue.js";
+import { buildPreamble, preambleVariables } from "./preamble.js";
 import {
   parseSessionFile,
   recentItemsForEntry,
   summarizeEntry,
   summarizeSession,
 } from "./introspect-format.js";
-import type { KnightConfig } from "./config.js";
+import { natsPrefix, type KnightConfig } from "./config.js";
 import type { Subscription } from "nats";
 import { StringCodec } from "./nats.js";
 
 const sc = StringCodec();
 
 interface IntrospectRequest {
-  type: "stats" | "recent" | "tree" | "history" | "session";
+  type: "stats" | "recent" | "tree" | "history" | "session" | "queue" | "preamble";
   limit?: number;
   offset?: number;
   id?: string;
@@ -41,9 +43,7 @@ export function startIntrospect(config: KnightConfig): void {
     return;
   }
 
-  // Derive prefix from natsResultsPrefix (e.g. "rt-dev.results" → "rt-dev")
-  const prefix = config.natsResultsPrefix.replace(/\.results$/, "");
-  const subject = `${prefix}.introspect.${config.knightName}`;
+  const subject = `${natsPrefix(config)}.introspect.${config.knightName}`;
   sub = nc.subscribe(subject);
   log.info("Introspect responder started", { subject });
 
@@ -77,6 +77,13 @@ export async function handleIntrospect(req: IntrospectRequest, config: KnightCon
   if (req.type === "session") {
     return buildSession(config, req.id, req.limit, req.offset);
   }
+  // The queue lives outside the session, so it's visible before the session warms up.
+  if (req.type === "queue") {
+    return buildQueue(config);
+  }
+  if (req.type === "preamble") {
+    return buildPreambleView(config);
+  }
 
   const session = getActiveSession();
 
@@ -87,6 +94,7 @@ export async function handleIntrospect(req: IntrospectRequest, config: KnightCon
       runtime: {
         uptime: Math.floor((Date.now() - startTime) / 1000),
         activeTasks: 0,
+        queuedTasks: getTaskQueue()?.length ?? 0,
         model: config.knightModel,
       },
     };
@@ -126,11 +134,46 @@ function buildStats(config: KnightConfig) {
     runtime: {
       uptime: Math.floor((Date.now() - startTime) / 1000),
       activeTasks: 0,
+      queuedTasks: getTaskQueue()?.length ?? 0,
       model: config.knightModel,
     },
   };
 }
 
+function buildQueue(config: KnightConfig) {
+  const now = Date.now();
+  const queued = getTaskQueue()?.ordered(now) ?? [];
+  return {
+    knight: config.knightName,
+    tasks: queued.map((e, position) => ({
+      position,
+      taskId: e.task.taskId,
+      priority: e.task.priority ?? "normal",
+      enqueuedAt: new Date(e.enqueuedAt).toISOString(),
+      waitMs: now - e.enqueuedAt,
+      runId: e.task.runId ?? null,
+      from: e.task.from ?? null,
+      // Journaled tasks survive a restart; at-least-once tasks are held by JetStream instead.
+      durability: e.task.delivery ? "jetstream" : "journal",
+      preview: e.task.task.slice(0, 140),
+    })),
+    total: queued.length,
+  };
+}
+
+// The template as it renders now, and the full system prompt the latest session is using
+// (preamble + context files + skills) — they differ until a reload if the template changed.
+function buildPreambleView(config: KnightConfig) {
+  const { source, text } = buildPreamble(config);
+  return {
+    knight: config.knightName,
+    source,
+    variables: preambleVariables(config),
+    preamble: text,
+    systemPrompt: getActiveSession()?.systemPrompt ?? null,
+  };
+}
+
 function buildRecent(config: KnightConfig, limit: number) {
   const session = getActiveSession()!;
   const entries = session.sessionManager.getEntries();
@@ -0,0 +1,84 @@
+/**
+ * Append-only JSONL journals on the PVC.
+ *
+ * The thread store, the idempotency store, the spend ledger and the task queue each keep
+ * their state in memory and journal every change to a JSONL file, so it survives a
+ * restart. On startup the store replays the file into its live state and rewrites the file
+ * with only that state. This holds the file handling they share; what a line means and
+ * which lines are still live stays with each store.
+ *
+ * Writes are synchronous: a record must be on disk before the caller moves on. A failed
+ * write is logged, never thrown — the in-memory state stays authoritative.
+ */
+import { appendFileSync, existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { log } from "./logger.js";
+
+/** Parse JSONL contents, oldest first. Blank and malformed lines are skipped. */
+export function parseJsonLines(contents: string): unknown[] {
+  const records: unknown[] = [];
+  for (const line of contents.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      records.push(JSON.parse(line));
+    } catch {
+      // A torn write (the pod died mid-append) — skip it.
+    }
+  }
+  return records;
+}
+
+export class Journal<T> {
+  private appendsSinceRewrite = 0;
+
+  /**
+   * @param path JSONL file; empty keeps nothing on disk.
+   * @param label Names the journal in log messages, e.g. "Thread store".
+   * @param rewriteAfter Appends after which `append` rewrites the file from the live
+   *   records instead (0: never). Superseded and evicted lines pile up in the file, so
+   *   stores bounded to N live records pass N: past that the stale lines could outnumber them.
+   */
+  constructor(
+    readonly path: string,
+    private readonly label: string,
+    private readonly rewriteAfter = 0,
+  ) {}
+
+  /** The file's contents, or undefined when there is no file. */
+  read(): string | undefined {
+    if (!this.path || !existsSync(this.path)) return undefined;
+    return readFileSync(this.path, "utf-8");
+  }
+
+  /**
+   * Append one record — or, once `rewriteAfter` appends have piled up, rewrite the file
+   * from `live` (which must include the record).
+   */
+  append(record: T, live?: () => Iterable<T>): void {
+    if (!this.path) return;
+    if (live && this.rewriteAfter > 0 && ++this.appendsSinceRewrite >= this.rewriteAfter) {
+      this.rewrite(live());
+      return;
+    }
+    try {
+      mkdirSync(dirname(this.path), { recursive: true });
+      appendFileSync(this.path, JSON.stringify(record) + "\n");
+    } catch (err) {
+      log.error(`${this.label} write failed`, { path: this.path, error: String(err) });
+    }
+  }
+
+  /** Replace the file's contents with `records` (atomic rename). */
+  rewrite(records: Iterable<T>): void {
+    this.appendsSinceRewrite = 0;
+    if (!this.path) return;
+    try {
+      mkdirSync(dirname(this.path), { recursive: true });
+      const tmp = `${this.path}.tmp`;
+      writeFileSync(tmp, [...records].map((r) => JSON.stringify(r) + "\n").join(""));
+      renameSync(tmp, this.path);
+    } catch (err) {
+      log.error(`${this.label} compaction failed`, { path: this.path, error: String(err) });
+    }
+  }
+}
@@ -1,18 +1,34 @@
 import {
   createAgentSession,
   DefaultResourceLoader,
+  SessionManager,
   type AgentSession,
 } from "@earendil-works/pi-coding-agent";
 import type { ThinkingLevel } from "@earendil-works/pi-agent-core";
 import { resolveModel, createTrustedSettingsManager } from "./model.js";
-import type { KnightConfig } from "./config.js";
+import { natsPrefix, type KnightConfig } from "./config.js";
+import { buildPreamble } from "./preamble.js";
 import { log } from "./logger.js";
 import { natsTools, setKnightName, setNatsPrefix } from "./tools/nats.js";
-import { subagentTools, setParentModel, setParentKnight } from "./tools/subagent.js";
+import { subagentTools, setParentModel, setParentKnight, setParentTaskResolver, type SubagentParentTask } from "./tools/subagent.js";
 import { browserTools } from "./tools/browser.js";
-import { setupToolHooks } from "./hooks.js";
-import { setupCompactionHook, updateSessionNotes } from "./memory.js";
-import { describeSessionFailure, getBestAssistantResult, resolveTaskOutcome, summarizeSessionTail } from "./result-extraction.js";
+import { setupToolHooks, type ToolCallTask } from "./hooks.js";
+import { readSessionNotes, setupCompactionHook, updateSessionNotes } from "./memory.js";
+import { startProgressStream, type ProgressHandle } from "./progress.js";
+import { steerMessage, type SteerRequest } from "./steer.js";
+import { watchBudget, type BudgetUsage, type TaskBudget } from "./budget.js";
+import { SessionPool, SHARED_SESSION_KEY, type SessionLease } from "./session-pool.js";
+import { rotationReason, rotationSeed, sessionUsage } from "./session-rotation.js";
+import * as metrics from "./metrics.js";
+import { enforceOutputSchema, withOutputSchema, type OutputSchema } from "./structured-output.js";
+import type { SessionRef, ThreadTarget } from "./threads.js";
+import {
+  describeSessionFailure,
+  getBestAssistantResult,
+  lastProviderError,
+  resolveTaskOutcome,
+  summarizeSessionTail,
+} from "./result-extraction.js";
 
 
 export interface TaskResult {
@@ -26,26 +42,85 @@ export interface TaskResult {
   tokens: { input: number; output: number; cacheRead: number };
   model: string;
   toolCalls: number;
+  /** Parsed JSON deliverable, when the task carried an output_schema and it validated. */
+  data?: unknown;
+  /** Why the JSON deliverable didn't validate, when it never did. */
+  validationErrors?: string[];
+  /** Where the task left its session — recorded so follow-up tasks can resume from it. */
+  session?: SessionRef;
+  /** Fallback models switched to after provider errors; `model` is the one that answered. */
+  fallbacks?: number;
+  /** The task was stopped by its cost/token budget; `result` is whatever it had so far. */
+  budgetExceeded?: boolean;
+}
+
+/** Why a task's abort signal fired — passed as the AbortController reason. */
+export type TaskAbortReason = "timeout" | "cancelled";
+
+// Persistent sessions, one per chain run (tasks without a runId share one). A run gets
+// its own session so context never bleeds across runs (#31), and independent runs can
+// prompt in parallel. Created on first use, sized to MAX_CONCURRENT_TASKS.
+let pool: SessionPool<AgentSession> | null = null;
+
+function getPool(config: KnightConfig): SessionPool<AgentSession> {
+  pool ??= new SessionPool(
+    () => createSession(config),
+    Math.max(1, config.maxConcurrentTasks),
+    // A warmed session with PVC history isn't pristine — a new run must not inherit it.
+    (sess) => sess.getSessionStats().totalMessages === 0,
+  );
+  return pool;
 }
 
-// Persistent session — reused across tasks within a chain run
-let session: AgentSession | null = null;
+// Tasks whose prompt is running, by task ID — where steering messages go.
+const running = new Map<string, { session: AgentSession; progress?: ProgressHandle; runId?: string; subagentUsage: BudgetUsage }>();
 
-// In-flight session creation, so a task arriving during startup pre-warm awaits the
-// same createAgentSession call instead of racing a second one.
-let sessionCreating: Promise<AgentSession> | null = null;
+/**
+ * Queue a steering or follow-up message on a running task's session, and acknowledge it
+ * on the task's progress channel. False when the task's prompt isn't running (yet).
+ */
+export async function steerTask(req: SteerRequest): Promise<boolean> {
+  const task = running.get(req.taskId);
+  if (!task) return false;
+  const text = steerMessage(req);
+  if (req.mode === "follow_up") await task.session.followUp(text);
+  else await task.session.steer(text);
+  task.progress?.emit({ type: "steer", mode: req.mode, text: req.text, ...(req.from ? { from: req.from } : {}) });
+  return true;
+}
 
-// True once the current session has been prompted. An unused session has no context
-// to bleed, so a new chain run can adopt it instead of paying dispose+recreate.
-let sessionUsed = false;
+/** The task whose prompt is running on `session`, if any. */
+function runningTask(session: AgentSession): ToolCallTask | undefined {
+  for (const [taskId, task] of running) {
+    if (task.session === session) return { taskId, ...(task.runId ? { runId: task.runId } : {}) };
+  }
+  return undefined;
+}
 
-// The chain runId the current session belongs to. A task whose runId differs starts a
-// fresh session to prevent cross-run context bleed; tasks without a runId reuse it. (#31)
-let currentRunId: string | undefined;
+/** The task running on the session with this ID, for sub-agent spend attribution. */
+function taskForSession(sessionId: string): SubagentParentTask | undefined {
+  for (const [taskId, task] of running) {
+    if (task.session.sessionManager.getSessionId() === sessionId) return { taskId, usage: task.subagentUsage };
+  }
+  return undefined;
+}
 
-/** Get the active session (or null if not yet created). Used by introspect. */
+/** The most recently used session (or null if none yet). Used by introspect. */
 export function getActiveSession(): AgentSession | null {
-  return session;
+  return pool?.sessions()[0] ?? null;
+}
+
+/**
+ * Reload skills, context files and the preamble on every pooled session, each between
+ * tasks. Sessions created later load them fresh anyway. Returns how many were reloaded.
+ */
+export async function reloadSessions(): Promise<number> {
+  return pool?.refresh((sess) => sess.reload()) ?? 0;
+}
+
+/** Dispose every pooled session — aborts in-flight agent work (shutdown). */
+export function disposeSessions(): void {
+  pool?.disposeAll();
 }
 
 /**
@@ -53,38 +128,26 @@ export function getActiveSession(): AgentSession | null {
  *
  * Cold createAgentSession has been observed to take ~79s on knights with a
  * long PVC session history — latency that otherwise lands inside the first
- * task's timeout window. Failures are logged and left for the first task's
- * getSession() to retry, so a transient error here never crashes the knight.
+ * task's timeout window. Failures are logged and left for the first task
+ * to retry, so a transient error here never crashes the knight. A run's first task
+ * adopts the warmed session while it is still pristine.
  */
 export function warmSession(config: KnightConfig): void {
-  getSession(config)
+  getPool(config).warm(SHARED_SESSION_KEY)
     .then(() => log.info("Session pre-warmed at startup"))
     .catch((err) =>
       log.warn("Session pre-warm failed — first task will retry", { error: String(err) }),
     );
 }
 
-// Serialize prompt() calls — Pi SDK sessions handle one prompt at a time
-let promptLock: Promise<void> = Promise.resolve();
-
 /**
- * Get or create the persistent AgentSession.
+ * Create a persistent AgentSession for the pool.
  *
- * The session persists across tasks (JSONL on PVC), giving the knight
+ * Sessions persist across tasks (JSONL on PVC), giving the knight
  * memory of previous work. Pi SDK handles auto-compaction when context grows.
+ * With `resume`, the session continues a saved conversation from that entry.
  */
-async function getSession(config: KnightConfig): Promise<AgentSession> {
-  if (session) return session;
-  if (sessionCreating) return sessionCreating;
-  sessionCreating = createSession(config);
-  try {
-    return await sessionCreating;
-  } finally {
-    sessionCreating = null;
-  }
-}
-
-async function createSession(config: KnightConfig): Promise<AgentSession> {
+async function createSession(config: KnightConfig, resume?: SessionRef): Promise<AgentSession> {
   const tStart = Date.now();
   const { model, provider, modelName, authStorage, modelRegistry } = resolveModel(config.knightModel);
   const resolveModelMs = Date.now() - tStart;
@@ -92,13 +155,26 @@ async function createSession(config: KnightConfig): Promise<AgentSession> {
   log.info("Creating persistent session", { provider, model: modelName });
 
   setKnightName(config.knightName);
-  // Derive NATS prefix from results prefix (e.g. "rt-dev.results" → "rt-dev")
-  setNatsPrefix(config.natsResultsPrefix.replace(/\.results$/, ""));
+  setNatsPrefix(natsPrefix(config));
   setParentModel(config.knightModel);
   setParentKnight(config.knightName);
+  setParentTaskResolver(taskForSession);
 
   const thinkingLevel = (config.thinkingLevel ?? "off") as ThinkingLevel;
 
+  // A resumed thread gets its own file holding the branch up to the resumed entry: the
+  // original file may belong to a session that is still appending to it.
+  let sessionManager: SessionManager | undefined;
+  if (resume) {
+    try {
+      sessionManager = SessionManager.open(resume.sessionFile);
+      sessionManager.createBranchedSession(resume.leafId);
+    } catch (err) {
+      log.warn("Cannot reopen thread session — starting fresh", { ...resume, error: String(err) });
+      sessionManager = undefined;
+    }
+  }
+
   const tCreate = Date.now();
   const { session: newSession } = await createAgentSession({
     model,
@@ -107,6 +183,7 @@ async function createSession(config: KnightConfig): Promise<AgentSession> {
     agentDir: "/data",
     authStorage,
     modelRegistry,
+    ...(sessionManager ? { sessionManager } : {}),
     // Explicitly trust the project dir (pi 0.79 project-trust gating); see model.ts.
     settingsManager: createTrustedSettingsManager("/data", "/data"),
     customTools: [
@@ -121,15 +198,15 @@ async function createSession(config: KnightConfig): Promise<AgentSession> {
       noExtensions: true,
       noThemes: true,
       noPromptTemplates: true,
-      systemPrompt: buildKnightPreamble(config),
+      // Rebuilt on every resource reload, so a hot reload picks up a changed preamble.
+      systemPromptOverride: () => buildPreamble(config).text,
     }),
   });
 
   const createAgentSessionMs = Date.now() - tCreate;
 
-  // Configure the session fully before publishing it to the module-level
-  // `session` — a task arriving mid-pre-warm must never see a session whose
-  // hooks aren't installed yet.
+  // Configure the session fully before handing it to the pool — a task arriving
+  // mid-pre-warm must never see a session whose hooks aren't installed yet.
 
   // Set maxRetryDelayMs on the underlying agent
   newSession.agent.maxRetryDelayMs = config.maxRetryDelayMs;
@@ -140,7 +217,7 @@ async function createSession(config: KnightConfig): Promise<AgentSession> {
   newSession.agent.toolExecution = "parallel";
 
   // Install tool hooks — safety guardrails, observability, metrics
-  setupToolHooks(newSession);
+  setupToolHooks(newSession, () => runningTask(newSession));
 
   // Install custom compaction hook — knight-specific context preservation
   setupCompactionHook(newSession, config);
@@ -213,58 +290,139 @@ async function createSession(config: KnightConfig): Promise<AgentSession> {
     totalMs: Date.now() - tStart,
   });
 
-  session = newSession;
-  sessionUsed = false;
   return newSession;
 }
 
+export interface ExecuteTaskOptions {
+  /** Aborts the prompt; its reason (a TaskAbortReason) names the cause in the failure. */
+  signal?: AbortSignal;
+  /** Chain run ID — selects the run's own session (#31); absent uses the shared one. */
+  runId?: string;
+  /** Conversation thread to continue — takes precedence over runId for session choice. */
+  thread?: ThreadTarget;
+  /** Model ("provider/model") and thinking level for this task only, already checked
+   *  against the knight's allowlists. The knight's defaults are restored afterwards. */
+  model?: string;
+  thinking?: string;
+  /** Cost/token limits — the session is aborted once the task's spend reaches them. */
+  budget?: TaskBudget;
+  /** Task ID — enables progress events on `<prefix>.progress.<taskId>`. */
+  taskId?: string;
+  /** JSON Schema the deliverable must match; the validated value is returned as `data`. */
+  outputSchema?: OutputSchema;
+  /** Called once the task holds its session and is about to prompt — time spent waiting
+   *  for the session before this point shouldn't count against the task's timeout. */
+  onStart?: () => void;
+}
+
 /**
- * Execute a task on the persistent session.
+ * Point the session at another model. Keyless local endpoints get the same dummy key
+ * resolveModel gives them, on the session's own auth store — setModel refuses a model
+ * without auth.
+ */
+async function switchModel(sess: AgentSession, modelStr: string): Promise<void> {
+  const { model, provider } = resolveModel(modelStr);
+  if (!sess.modelRegistry.hasConfiguredAuth(model)) {
+    sess.modelRegistry.authStorage.setRuntimeApiKey(provider, "ollama");
+  }
+  await sess.setModel(model);
+}
+
+/**
+ * Swap the leased session for a fresh one, seeded with the session notes, when it has
+ * reached a rotation limit. If the fresh session can't be created the task keeps the old one.
+ */
+async function rotateIfDue(config: KnightConfig, lease: SessionLease<AgentSession>): Promise<void> {
+  const reason = rotationReason(config, sessionUsage(lease.session));
+  if (!reason) return;
+  const previousSessionFile = lease.session.sessionManager.getSessionFile();
+  log.info("Rotating session", { reason: reason.detail, previousSessionFile });
+  let fresh: AgentSession;
+  try {
+    fresh = await createSession(config);
+  } catch (err) {
+    log.warn("Session rotation failed — keeping the current session", { error: String(err) });
+    return;
+  }
+  const notes = await readSessionNotes();
+  if (notes) {
+    await fresh.sendCustomMessage(
+      { customType: "session_notes", content: rotationSeed(notes, reason), display: false, details: { reason: reason.kind, previousSessionFile } },
+      { triggerTurn: false },
+    );
+  }
+  lease.replace(fresh);
+  metrics.sessionRotationsTotal.labels(config.knightName, reason.kind).inc();
+}
+
+/** Re-prompt on a fallback model: the failed turn stays in the session, so pick up from it. */
+function fallbackPrompt(providerError: string): string {
+  return `The previous model call failed (${providerError}). You are now running on a different model. \
+Continue the task from where it stopped — do not repeat work that already succeeded.`;
+}
+
+/**
+ * Execute a task on its run's persistent session.
  *
- * Each task is a new prompt() on the same session — the knight
- * remembers context from previous tasks within the session lifetime.
+ * Each task is a new prompt() on the run's session — the knight
+ * remembers context from previous tasks of the run within the session lifetime.
+ * Tasks of one run serialize on its session; different runs run in parallel.
  * Pi SDK auto-compacts when context grows too large.
  */
 export async function executeTask(
   task: string,
   config: KnightConfig,
-  signal?: AbortSignal,
-  runId?: string,
+  options: ExecuteTaskOptions = {},
 ): Promise<TaskResult> {
-  // Serialize — wait for any in-flight prompt to finish
-  const prevLock = promptLock;
-  let releaseLock: () => void;
-  promptLock = new Promise((resolve) => { releaseLock = resolve; });
-  await prevLock;
-
-  // Start a fresh session when a new chain run begins (#31). This runs inside the
-  // serialized region so it can't race a concurrent task's prompt. runId is optional:
-  // ad-hoc/mission tasks (and older operators) omit it and keep reusing the session.
-  // Exception: a session that was never prompted and carries no PVC history has no
-  // context to bleed — adopt it (this is what makes startup pre-warming effective;
-  // disposing here would throw away the warmed session on every first chain task).
-  if (runId && runId !== currentRunId && session) {
-    if (!sessionUsed && session.getSessionStats().totalMessages === 0) {
-      log.info("Adopting pre-warmed unused session for new chain run", {
-        previousRunId: currentRunId ?? null,
-        runId,
-      });
-    } else {
-      log.info("New chain run — resetting agent session to avoid context bleed", {
-        previousRunId: currentRunId ?? null,
-        runId,
-      });
+  const { signal, runId, taskId, outputSchema, onStart, thread, thinking, budget } = options;
+  const requestedModel = options.model ?? config.knightModel;
+  // The model the session is on — a fallback after a provider error changes it.
+  let model = requestedModel;
+  let fallbacks = 0;
+  // Wait for exclusive use of the run's (or thread's) session — another task of the same
+  // run may be prompting it — creating it if this is the first task to need it.
+  const from = thread?.from;
+  const lease = thread
+    ? await getPool(config).acquire(`thread:${thread.threadId}`, from ? () => createSession(config, from) : undefined)
+    : await getPool(config).acquire(runId ?? SHARED_SESSION_KEY);
+
+  // Aborted while waiting for the session (cancelled): don't start the prompt at all —
+  // a listener added now would never fire, and the task would run anyway.
+  if (signal?.aborted) {
+    lease.release();
+    const error = `Task aborted before it started (${signal.reason === "cancelled" ? "cancelled" : "task timeout"})`;
+    log.warn("Task aborted while waiting for the session", { reason: String(signal.reason) });
+    return {
+      result: error,
+      success: false,
+      error,
+      cost: 0,
+      tokens: { input: 0, output: 0, cacheRead: 0 },
+      model,
+      toolCalls: 0,
+    };
+  }
+
+  // Threads resume exactly where they left off, so only run and shared sessions rotate.
+  if (!thread) await rotateIfDue(config, lease);
+  const sess = lease.session;
+  // A reply to an earlier task of a live thread: move back to that point of the tree.
+  // The abandoned branch stays in the file; the next prompt starts a sibling branch.
+  if (from && sess.sessionManager.getLeafId() !== from.leafId) {
+    if (sess.sessionManager.getEntry(from.leafId)) {
       try {
-        session.dispose();
+        await sess.navigateTree(from.leafId);
       } catch (err) {
-        log.warn("Failed to dispose prior session on run change", { error: String(err) });
+        log.warn("Cannot branch thread session — continuing from its latest entry", { threadId: thread!.threadId, error: String(err) });
       }
-      session = null;
+    } else {
+      log.warn("Reply target not in the thread's live session — continuing from its latest entry", {
+        threadId: thread!.threadId,
+        leafId: from.leafId,
+      });
     }
   }
-  if (runId) currentRunId = runId;
-
-  const sess = await getSession(config);
+  onStart?.();
 
   // Snapshot stats before this task
   const statsBefore = sess.getSessionStats();
@@ -276,26 +434,80 @@ export async function executeTask(
     cacheRead: statsBefore.tokens.cacheRead,
   };
 
-  log.info("Executing task", { model: config.knightModel, taskLength: task.length });
+  log.info("Executing task", { model, ...(thinking ? { thinking } : {}), taskLength: task.length });
 
   // Abort handling — if signal fires, abort the session
   let abortHandler: (() => void) | undefined;
   if (signal) {
     abortHandler = () => {
-      log.warn("Task aborted via signal");
+      log.warn("Task aborted via signal", { reason: String(signal.reason) });
       sess.abort();
     };
     signal.addEventListener("abort", abortHandler, { once: true });
   }
 
+  const progress = taskId ? startProgressStream(sess, config, taskId) : undefined;
+  const subagentUsage: BudgetUsage = { cost: 0, tokens: 0 };
+  const budgetWatch = budget ? watchBudget(sess, budget, statsBefore, () => subagentUsage) : undefined;
+  if (taskId) running.set(taskId, { session: sess, progress, runId, subagentUsage });
+
+  let structured: Awaited<ReturnType<typeof enforceOutputSchema>>;
+  let sessionRef: SessionRef | undefined;
   try {
-    sessionUsed = true;
-    await sess.prompt(task);
+    if (model !== config.knightModel) await switchModel(sess, model);
+    if (thinking) sess.setThinkingLevel(thinking as ThinkingLevel);
+    await sess.prompt(outputSchema ? withOutputSchema(task, outputSchema) : task);
+    // A provider error past the SDK's own retries: walk the fallback chain, within the
+    // task's deadline (the signal aborts the prompt when it passes).
+    for (const fallback of config.fallbackModels.filter((m) => m !== requestedModel)) {
+      const providerError = lastProviderError(sess);
+      if (!providerError || signal?.aborted || budgetWatch?.exceeded()) break;
+      log.warn("Model failed — falling back", { from: model, to: fallback, error: providerError });
+      try {
+        await switchModel(sess, fallback);
+      } catch (err) {
+        log.warn("Fallback model unavailable — skipping", { model: fallback, error: String(err) });
+        continue;
+      }
+      model = fallback;
+      fallbacks++;
+      await sess.prompt(fallbackPrompt(providerError));
+    }
+    // Repairs re-prompt the same session, so they stay inside the serialized region.
+    // An over-budget task gets no repairs — they would spend past the limit.
+    if (outputSchema && !budgetWatch?.exceeded()) {
+      structured = await enforceOutputSchema(sess, outputSchema, config.outputSchemaMaxRepairs, signal);
+    }
   } finally {
+    if (taskId) running.delete(taskId);
+    // A steer that arrived as the prompt ended was never delivered — it belongs to this
+    // task, not the next one on the session.
+    const undelivered = sess.clearQueue();
+    if (undelivered.steering.length + undelivered.followUp.length > 0) {
+      log.warn("Steering messages arrived too late to deliver", {
+        steering: undelivered.steering.length,
+        followUp: undelivered.followUp.length,
+      });
+    }
+    progress?.stop();
+    budgetWatch?.stop();
     if (signal && abortHandler) {
       signal.removeEventListener("abort", abortHandler);
     }
-    releaseLock!();
+    // Hand the next task the knight's defaults. Thinking goes last: a model switch
+    // re-clamps it to what the model supports.
+    if (model !== config.knightModel || (thinking !== undefined && thinking !== config.thinkingLevel)) {
+      try {
+        if (model !== config.knightModel) await switchModel(sess, config.knightModel);
+        sess.setThinkingLevel((config.thinkingLevel ?? "off") as ThinkingLevel);
+      } catch (err) {
+        log.error("Failed to restore the default model after a task override", { model: config.knightModel, error: String(err) });
+      }
+    }
+    const sessionFile = sess.sessionManager.getSessionFile();
+    const leafId = sess.sessionManager.getLeafId();
+    if (sessionFile && leafId) sessionRef = { sessionFile, leafId };
+    lease.release();
   }
 
   // Diff stats to get this task's contribution. Clamp at 0: session-cumulative stats
@@ -325,10 +537,12 @@ export async function executeTask(
   // message and resolves prompt() normally) is surfaced as the failure reason rather
   // than being masked by the generic no-output message.
   const deliverable = getBestAssistantResult(sess);
+  const abortCause = signal?.reason === "cancelled" ? "cancelled" : "task timeout";
   const failureReason = deliverable == null
-    ? describeSessionFailure(sess, signal?.aborted ?? false)
+    ? describeSessionFailure(sess, signal?.aborted ?? false, abortCause)
     : undefined;
-  const { result: resultText, success, error } = resolveTaskOutcome(deliverable, failureReason);
+  const { result: resultText, success, error, data, validationErrors, budgetExceeded } =
+    resolveTaskOutcome(deliverable, failureReason, structured, budgetWatch?.exceeded());
   if (!success) {
     log.warn("Task produced no deliverable", {
       error,
@@ -355,6 +569,9 @@ export async function executeTask(
     outputTokens: taskTokens.output,
     cost: taskCost,
     toolCalls: taskToolCalls,
+    model,
+    ...(thinking ? { thinking } : {}),
+    ...(fallbacks > 0 ? { fallbacks } : {}),
   });
 
   return {
@@ -363,63 +580,12 @@ export async function executeTask(
     error,
     cost: taskCost,
     tokens: taskTokens,
-    model: config.knightModel,
+    model,
     toolCalls: taskToolCalls,
+    ...(data !== undefined ? { data } : {}),
+    ...(validationErrors ? { validationErrors } : {}),
+    ...(sessionRef ? { session: sessionRef } : {}),
+    ...(fallbacks > 0 ? { fallbacks } : {}),
+    ...(budgetExceeded ? { budgetExceeded } : {}),
   };
 }
-
-/**
- * Build a short preamble identifying the knight.
- * Skills, AGENTS.md, personality files are handled by Pi SDK's resource loader.
- */
-/**
- * Build the system prompt preamble for this knight.
- *
- * This is injected BEFORE AGENTS.md/SOUL.md (which the resource loader handles).
- * Keep it focused on runtime identity and behavioral guardrails that apply
- * to ALL knights regardless of their individual personality.
- *
- * Pattern: Explicit negative instructions + reasoning (from Claude Code leak analysis).
- */
-function buildKnightPreamble(config: KnightConfig): string {
-  return `You are ${config.knightName}, a Knight of the Round Table.
-You are a specialized AI agent running as a Kubernetes pod in the Round Table fleet.
-The current model is ${config.knightModel}.
-
-<runtime_context>
-Knight: ${config.knightName}
-Model: ${config.knightModel}
-Workspace: /data (persistent PVC — survives restarts)
-Skills: /skills (read-only, operator-managed)
-Vault: /vault (Derek's Obsidian vault — write only to Briefings/ and Roundtable/)
-</runtime_context>
-
-<default_to_action>
-By default, implement changes rather than only suggesting them. If the task's intent is
-unclear, infer the most useful likely action and proceed, using tools to discover any
-missing details instead of guessing. Your text response IS the deliverable — when asked
-to write a report, your response IS that report. Never describe what you would write.
-</default_to_action>
-
-<use_parallel_tool_calls>
-If you intend to call multiple tools and there are no dependencies between the calls,
-make all independent calls in parallel. For example, when reading 3 files, read all 3
-at once. Maximize parallel tool calls where possible. However, if some calls depend on
-previous results, call those sequentially. Never use placeholders or guess missing
-parameters in tool calls.
-</use_parallel_tool_calls>
-
-<critical_rules>
-1. Read MEMORY.md and SOUL.md at the start of each task for accumulated context.
-2. Log your work to memory/YYYY-MM-DD.md after each task.
-3. NEVER truncate results. If the task asks for full output, provide full output.
-4. NEVER create files unless necessary for the task. Prefer editing existing files.
-5. If a tool call fails, understand WHY before retrying — don't loop on the same error.
-6. Prefer targeted file reads (offset/limit) over loading entire files.
-7. ALWAYS end the task with a final plain-text message stating the result or deliverable.
-   The runtime publishes that final text as your task result — if you stop after a tool
-   call, or end with an empty message, the task is reported as FAILED with no output,
-   even when the tool work itself succeeded. After tool use, summarize what you did and
-   state the deliverable in text.
-</critical_rules>`;
-}
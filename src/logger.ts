@@ -5,12 +5,18 @@ type Level = keyof typeof LEVELS;
 
 let minLevel: number = LEVELS.info;
 let knightName = "unknown";
+let scrub: (value: unknown) => unknown = (value) => value;
 
 export function initLogger(knight: string, level: string): void {
   knightName = knight;
   minLevel = LEVELS[level as Level] ?? LEVELS.info;
 }
 
+/** Run every message and field through `fn` before it is written (secret redaction). */
+export function setLogScrubber(fn: (value: unknown) => unknown): void {
+  scrub = fn;
+}
+
 function emit(level: Level, msg: string, extra?: Record<string, unknown>): void {
   if (LEVELS[level] < minLevel) return;
   const entry: Record<string, unknown> = {
@@ -19,8 +25,8 @@ function emit(level: Level, msg: string, extra?: Record<string, unknown>): void
     pid: process.pid,
     hostname: os.hostname(),
     knight: knightName,
-    msg,
-    ...extra,
+    msg: scrub(msg),
+    ...(extra ? (scrub(extra) as Record<string, unknown>) : {}),
   };
   process.stdout.write(JSON.stringify(entry) + "\n");
 }
@@ -141,6 +141,16 @@ ${resultPreview}
   });
 }
 
+/** The current session notes, or null if none have been written yet. */
+export async function readSessionNotes(): Promise<string | null> {
+  try {
+    const notes = await readFile(SESSION_NOTES_FILE, "utf-8");
+    return notes.trim() ? notes : null;
+  } catch {
+    return null;
+  }
+}
+
 // ─── Helpers ────────────────────────────────────────────────────
 
 async function ensureDir(dir: string): Promise<void> {
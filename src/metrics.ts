@@ -48,6 +48,63 @@ export const activeTasks = new client.Gauge({
   registers: [registry],
 });
 
+export const deadLettersTotal = new client.Counter({
+  name: "pi_knight_dead_letters_total",
+  help: "Tasks republished to the dead-letter stream",
+  labelNames: ["knight", "kind"] as const,
+  registers: [registry],
+});
+
+export const modelFallbacksTotal = new client.Counter({
+  name: "pi_knight_model_fallbacks_total",
+  help: "Switches to a fallback model after a prompt ended in a provider error",
+  labelNames: ["knight"] as const,
+  registers: [registry],
+});
+
+export const spendDollars = new client.Gauge({
+  name: "pi_knight_spend_dollars",
+  help: "Spend recorded in the ledger for the current UTC day or month",
+  labelNames: ["knight", "period"] as const,
+  registers: [registry],
+});
+
+export const reloadsTotal = new client.Counter({
+  name: "pi_knight_reloads_total",
+  help: "Hot reloads of skills and personality files, by trigger and result",
+  labelNames: ["knight", "trigger", "status"] as const,
+  registers: [registry],
+});
+
+export const sessionRotationsTotal = new client.Counter({
+  name: "pi_knight_session_rotations_total",
+  help: "Sessions replaced by a fresh one after reaching a rotation limit, by limit",
+  labelNames: ["knight", "reason"] as const,
+  registers: [registry],
+});
+
+export const duplicateTasksTotal = new client.Counter({
+  name: "pi_knight_duplicate_tasks_total",
+  help: "Tasks answered from the idempotency store instead of being run",
+  labelNames: ["knight"] as const,
+  registers: [registry],
+});
+
+export const queuedTasks = new client.Gauge({
+  name: "pi_knight_queued_tasks",
+  help: "Tasks waiting for a free execution slot",
+  labelNames: ["knight"] as const,
+  registers: [registry],
+});
+
+export const queueWait = new client.Histogram({
+  name: "pi_knight_queue_wait_seconds",
+  help: "Time tasks spent queued before starting, by priority",
+  labelNames: ["knight", "priority"] as const,
+  buckets: [1, 5, 15, 30, 60, 120, 300, 600, 1800],
+  registers: [registry],
+});
+
 // ─── Tool call metrics (used by hooks.ts) ──────────────────────────
 
 export const toolCallsTotal = new client.Counter({
@@ -75,6 +132,15 @@ export const toolCallErrors = new client.Counter({
 export const toolCallsBlocked = new client.Counter({
   name: "pi_knight_tool_calls_blocked_total",
   help: "Total tool calls blocked by safety hooks",
-  labelNames: ["tool", "reason"] as const,
+  // reason: the rule's reason text, or the check's name; rule: the policy rule id (empty
+  // for the built-in checks).
+  labelNames: ["tool", "reason", "rule"] as const,
+  registers: [registry],
+});
+
+export const approvalsTotal = new client.Counter({
+  name: "pi_knight_approvals_total",
+  help: "Tool calls held for human approval, by outcome (approved, denied, timeout, unavailable, cancelled)",
+  labelNames: ["knight", "tool", "outcome"] as const,
   registers: [registry],
 });
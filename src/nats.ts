@@ -1,15 +1,23 @@
+import { createHash } from "node:crypto";
 import {
   connect as natsConnect,
   type NatsConnection,
   type JetStreamClient,
   type JetStreamManager,
   type ConsumerMessages,
+  type ConsumerConfig,
+  type JsMsg,
+  type ObjectStore,
   StringCodec as NatsStringCodec,
+  headers as natsHeaders,
   AckPolicy,
   DeliverPolicy,
 } from "nats";
 import { log } from "./logger.js";
-import type { KnightConfig } from "./config.js";
+import { getRedactor } from "./redact.js";
+import * as metrics from "./metrics.js";
+import { parseTaskEnvelope, TASK_ENVELOPE_VERSION } from "./task-envelope.js";
+import { parseTaskPriority, THINKING_LEVELS, type KnightConfig, type TaskPriority } from "./config.js";
 
 const sc = NatsStringCodec();
 
@@ -27,6 +35,53 @@ export interface ParsedTask {
   /** Chain run identity (operator-assigned UUID). Used to start a fresh agent session
    *  per run and avoid cross-run context bleed. Optional — absent for ad-hoc tasks. (#31) */
   runId?: string;
+  /** Scheduling priority when queued. Absent on tasks journaled before priorities
+   *  existed — treated as "normal". */
+  priority?: TaskPriority;
+  /** Conversation thread the task continues, and/or the earlier task it follows up on.
+   *  Either runs the task on the thread's session instead of the run's. */
+  threadId?: string;
+  replyToTaskId?: string;
+  /** Spend limits for this task (metadata.max_cost_usd / metadata.max_tokens); absent:
+   *  the knight's TASK_MAX_COST_USD / TASK_MAX_TOKENS. */
+  maxCostUsd?: number;
+  maxTokens?: number;
+  /** Model and thinking level for this task only (metadata.model / metadata.thinking),
+   *  allowed only if on the knight's allowlists. Absent: the knight's defaults. */
+  model?: string;
+  thinking?: string;
+  /** JSON Schema for a structured (JSON) deliverable, published as `data`. */
+  outputSchema?: Record<string, unknown>;
+  /** Dispatcher-chosen key for the logical job; repeats reuse the earlier successful result. */
+  idempotencyKey?: string;
+  /** Subject the task arrived on and its raw payload — kept so a failed task can be
+   *  dead-lettered (and later replayed) exactly as it was dispatched. */
+  subject?: string;
+  raw?: string;
+  receivedAt?: string;
+  /** Ack handle for at-least-once delivery. Absent in at-most-once mode, where the
+   *  message was already acked on receipt. */
+  delivery?: TaskDelivery;
+}
+
+/**
+ * Ack handle for a task delivered in at-least-once mode.
+ *
+ * The message stays unacked while the task is queued or running; a working() heartbeat
+ * keeps resetting ack_wait so JetStream doesn't redeliver it mid-task. Exactly one of
+ * ack/nak/term settles the message and stops the heartbeat — later calls are no-ops.
+ */
+export interface TaskDelivery {
+  /** 1-based delivery attempt (JetStream's delivery count). */
+  attempt: number;
+  maxDeliver: number;
+  /** True when an earlier attempt was delivered but never acked (pod died, nak'd). */
+  redelivered: boolean;
+  /** True when a failure on this attempt should be retried via redelivery. */
+  canRetry: boolean;
+  ack(): void;
+  nak(delayMs?: number): void;
+  term(reason?: string): void;
 }
 
 /**
@@ -40,6 +95,57 @@ export function normalizeTimeoutMs(value: unknown): number | undefined {
   return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : undefined;
 }
 
+/** A positive, finite number field, or undefined. */
+function positiveNumber(value: unknown): number | undefined {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+/** A trimmed string field, or undefined when absent, blank or not a string. */
+function nonEmptyString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Desired durable consumer config for the task stream.
+ *
+ * at-most-once: acked on receipt, so max_deliver 1 and an ack_wait that just has to
+ * outlast the ack round-trip (kept at task timeout + 60s, as before).
+ * at-least-once: the message is held unacked until the task finishes; ack_wait is short
+ * and kept alive by working() heartbeats, so a dead pod's task is redelivered within
+ * one ack_wait rather than one task timeout.
+ */
+export function consumerConfigFor(config: KnightConfig): Partial<ConsumerConfig> & { durable_name: string } {
+  const atLeastOnce = config.taskDeliveryMode === "at-least-once";
+  return {
+    durable_name: `${config.knightName}-consumer`,
+    filter_subjects: config.subscribeTopics,
+    ack_policy: AckPolicy.Explicit,
+    deliver_policy: DeliverPolicy.All,
+    max_deliver: atLeastOnce ? Math.max(1, config.taskMaxDeliver) : 1,
+    // nanoseconds
+    ack_wait: (atLeastOnce ? config.taskAckWaitMs : config.taskTimeoutMs + 60_000) * 1_000_000,
+  };
+}
+
+/**
+ * Prefix a redelivered task with a notice for the agent.
+ *
+ * A redelivery means an earlier attempt was started and never finished — its side effects
+ * (files written, messages published, commits pushed) may already have happened. The
+ * runtime can't know which, so the agent is told to check before repeating them.
+ */
+export function withRedeliveryNotice(task: string, attempt: number): string {
+  return `<redelivery_notice>
+This task is being delivered again (attempt ${attempt}). A previous attempt started but did
+not complete — the knight may have been restarted mid-task. Some of its side effects may
+already have happened. Before repeating any action with external effects (writing files,
+publishing messages, pushing commits, sending alerts), check whether it was already done
+and do not duplicate it.
+</redelivery_notice>
+
+${task}`;
+}
+
 let nc: NatsConnection | null = null;
 let js: JetStreamClient | null = null;
 let consumer: ConsumerMessages | null = null;
@@ -91,21 +197,13 @@ export async function subscribe(config: KnightConfig): Promise<AsyncIterable<Par
   const jsm: JetStreamManager = await nc.jetstreamManager();
 
   // Create/bind durable consumer
-  const durableName = `${config.knightName}-consumer`;
+  const desiredConfig = consumerConfigFor(config);
+  const durableName = desiredConfig.durable_name;
   const filterSubjects = config.subscribeTopics;
 
   // Reconcile durable consumer — delete and recreate if config differs.
   // NATS does not allow updating deliver_policy or ack_policy on existing consumers,
   // so we compare the full config and recreate if anything changed.
-  const desiredConfig = {
-    durable_name: durableName,
-    filter_subjects: filterSubjects,
-    ack_policy: AckPolicy.Explicit,
-    deliver_policy: DeliverPolicy.All,
-    max_deliver: 1,
-    ack_wait: (config.taskTimeoutMs + 60_000) * 1_000_000, // task timeout + 60s buffer, in nanoseconds
-  };
-
   try {
     const existing = await jsm.consumers.info(config.natsTasksStream, durableName);
     const existingFilters = existing.config.filter_subjects ??
@@ -113,21 +211,20 @@ export async function subscribe(config: KnightConfig): Promise<AsyncIterable<Par
     const desiredFilters = [...filterSubjects].sort();
     const currentFilters = [...existingFilters].sort();
 
-    const expectedAckWait = (config.taskTimeoutMs + 60_000) * 1_000_000;
     const needsRecreate =
       JSON.stringify(currentFilters) !== JSON.stringify(desiredFilters) ||
       existing.config.deliver_policy !== DeliverPolicy.All ||
-      existing.config.max_deliver !== 1 ||
-      existing.config.ack_wait !== expectedAckWait;
+      existing.config.max_deliver !== desiredConfig.max_deliver ||
+      existing.config.ack_wait !== desiredConfig.ack_wait;
 
     if (needsRecreate) {
       log.warn("Consumer config mismatch — recreating", {
         durable: durableName,
         reason: {
           filters: JSON.stringify(currentFilters) !== JSON.stringify(desiredFilters),
-          deliverPolicy: existing.config.deliver_policy !== DeliverPolicy.New,
-          maxDeliver: existing.config.max_deliver !== 1,
-          ackWait: existing.config.ack_wait !== expectedAckWait,
+          deliverPolicy: existing.config.deliver_policy !== DeliverPolicy.All,
+          maxDeliver: existing.config.max_deliver !== desiredConfig.max_deliver,
+          ackWait: existing.config.ack_wait !== desiredConfig.ack_wait,
         },
       });
       await jsm.consumers.delete(config.natsTasksStream, durableName);
@@ -136,7 +233,7 @@ export async function subscribe(config: KnightConfig): Promise<AsyncIterable<Par
       log.info("Consumer config matches — reusing", { durable: durableName, filters: currentFilters });
       // Skip add — consumer already exists with correct config
       consumer = await js.consumers.get(config.natsTasksStream, durableName).then((c) => c.consume());
-      return buildTaskIterable(consumer!);
+      return buildTaskIterable(consumer!, config);
     }
   } catch {
     // Consumer doesn't exist yet — will be created below
@@ -144,24 +241,73 @@ export async function subscribe(config: KnightConfig): Promise<AsyncIterable<Par
   }
 
   await jsm.consumers.add(config.natsTasksStream, desiredConfig);
-  log.info("Consumer ready", { durable: durableName, stream: config.natsTasksStream, filters: filterSubjects });
+  log.info("Consumer ready", {
+    durable: durableName,
+    stream: config.natsTasksStream,
+    filters: filterSubjects,
+    deliveryMode: config.taskDeliveryMode,
+    maxDeliver: desiredConfig.max_deliver,
+  });
 
   consumer = await js.consumers.get(config.natsTasksStream, durableName).then((c) => c.consume());
-  return buildTaskIterable(consumer!);
+  return buildTaskIterable(consumer!, config);
 }
 
-function buildTaskIterable(msgs: ConsumerMessages): AsyncIterable<ParsedTask> {
+/**
+ * Wrap a JetStream message in a TaskDelivery and start its working() heartbeat.
+ * The heartbeat runs at a third of ack_wait so one missed beat never triggers redelivery.
+ */
+function createTaskDelivery(msg: JsMsg, config: KnightConfig): TaskDelivery {
+  const attempt = msg.info.deliveryCount;
+  const maxDeliver = Math.max(1, config.taskMaxDeliver);
+  let settled = false;
+  const heartbeat = setInterval(() => msg.working(), Math.max(1000, Math.floor(config.taskAckWaitMs / 3)));
+
+  const settle = (action: () => void) => {
+    if (settled) return;
+    settled = true;
+    clearInterval(heartbeat);
+    action();
+  };
+
+  return {
+    attempt,
+    maxDeliver,
+    redelivered: attempt > 1,
+    canRetry: attempt < maxDeliver,
+    ack: () => settle(() => msg.ack()),
+    nak: (delayMs?: number) => settle(() => msg.nak(delayMs)),
+    term: (reason?: string) => settle(() => msg.term(reason)),
+  };
+}
+
+function buildTaskIterable(msgs: ConsumerMessages, config: KnightConfig): AsyncIterable<ParsedTask> {
+  const atLeastOnce = config.taskDeliveryMode === "at-least-once";
   return {
     async *[Symbol.asyncIterator]() {
       for await (const msg of msgs) {
-        // Immediate ack — at-most-once delivery
-        msg.ack();
+        // at-most-once: immediate ack, before execution. at-least-once: the message stays
+        // unacked (heartbeated) until processTask settles it.
+        const delivery = atLeastOnce ? createTaskDelivery(msg, config) : undefined;
+        if (!delivery) msg.ack();
 
         const raw = sc.decode(msg.data);
         const subject = msg.subject;
         const subjectParts = subject.split(".");
         const subjectTaskId = subjectParts[subjectParts.length - 1] ?? "unknown";
 
+        // Schema check. Strict mode rejects with a typed result; lenient mode runs the
+        // task as before but logs what strict mode would have rejected.
+        const envelope = parseTaskEnvelope(raw);
+        if (!envelope.ok) {
+          if (config.taskEnvelopeStrict) {
+            await rejectTask(config, { task: "", taskId: envelopeTaskId(raw) ?? subjectTaskId, subject, raw }, envelope.errors, "invalid task envelope");
+            delivery?.term("invalid task envelope");
+            continue;
+          }
+          log.warn("Task envelope invalid — accepted (lenient mode)", { subject, errors: envelope.errors });
+        }
+
         let parsed: ParsedTask;
         try {
           const json = JSON.parse(raw);
@@ -177,6 +323,18 @@ function buildTaskIterable(msgs: ConsumerMessages): AsyncIterable<ParsedTask> {
             // tick; normalize it to undefined so the knight's configured timeout applies. (#30)
             timeoutMs: normalizeTimeoutMs(json.metadata?.timeout_ms ?? json.metadata?.timeoutMs),
             runId: json.runId ?? json.run_id,
+            threadId: nonEmptyString(json.thread_id),
+            replyToTaskId: nonEmptyString(json.reply_to_task_id),
+            priority: parseTaskPriority(json.priority ?? json.metadata?.priority),
+            // Same rule as timeouts: 0 (an omitted int field) leaves the knight's default. (#30)
+            maxCostUsd: positiveNumber(json.metadata?.max_cost_usd),
+            maxTokens: positiveNumber(json.metadata?.max_tokens),
+            model: nonEmptyString(json.metadata?.model),
+            thinking: nonEmptyString(json.metadata?.thinking),
+            outputSchema: json.output_schema && typeof json.output_schema === "object" && !Array.isArray(json.output_schema)
+              ? json.output_schema
+              : undefined,
+            idempotencyKey: nonEmptyString(json.idempotency_key),
           };
         } catch {
           // Not JSON — treat entire payload as task text
@@ -186,35 +344,328 @@ function buildTaskIterable(msgs: ConsumerMessages): AsyncIterable<ParsedTask> {
           };
         }
 
+        parsed.subject = subject;
+        parsed.raw = raw;
+        parsed.receivedAt = new Date().toISOString();
+
         // Reject empty/missing task text — don't waste an LLM call on nothing
         if (!parsed.task || parsed.task.trim().length === 0) {
           log.warn("Empty task payload — skipping", { taskId: parsed.taskId, subject, rawLength: raw.length });
+          await publishDeadLetter(parsed, { kind: "unprocessable", reason: "empty task payload", attempt: delivery?.attempt });
+          delivery?.term("empty task payload");
           continue;
         }
 
-        log.info("Task received", { taskId: parsed.taskId, subject });
+        // A model or thinking level the knight isn't allowed to use is the dispatcher's
+        // error — answer it rather than silently running on the defaults.
+        const overrideProblems = overrideErrors(config, parsed);
+        if (overrideProblems.length > 0) {
+          await rejectTask(config, parsed, overrideProblems, "model override not allowed");
+          delivery?.term("model override not allowed");
+          continue;
+        }
+
+        // No explicit priority: fall back to the domain's configured priority
+        // (subject <prefix>.tasks.<domain>.<taskId>), then "normal".
+        const domain = parsed.domain ?? subjectParts[subjectParts.length - 2];
+        parsed.priority ??= (domain && config.taskPriorityDomains[domain]) || "normal";
+
+        if (delivery) {
+          parsed.delivery = delivery;
+          if (delivery.redelivered) {
+            log.warn("Task redelivered — previous attempt did not complete", {
+              taskId: parsed.taskId,
+              attempt: delivery.attempt,
+              maxDeliver: delivery.maxDeliver,
+            });
+          }
+        }
+
+        log.info("Task received", { taskId: parsed.taskId, subject, priority: parsed.priority, ...(delivery ? { attempt: delivery.attempt } : {}) });
         yield parsed;
       }
     },
   };
 }
 
+/** The task ID a malformed payload claims, if it names one — else the subject token is used. */
+export function envelopeTaskId(raw: string): string | undefined {
+  try {
+    const json = JSON.parse(raw);
+    const id = json?.task_id ?? json?.taskId;
+    return typeof id === "string" && id.trim() ? id : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Why a task's model/thinking overrides can't run here, as `<path>: <message>` lines like
+ * the envelope's validation errors. Empty when there are none or all are allowed. The
+ * knight's own defaults are always allowed.
+ */
+export function overrideErrors(config: KnightConfig, task: Pick<ParsedTask, "model" | "thinking">): string[] {
+  const errors: string[] = [];
+  if (task.model && task.model !== config.knightModel && !config.modelAllowlist.includes(task.model)) {
+    errors.push(`/metadata/model: ${task.model} is not on this knight's model allowlist`);
+  }
+  if (task.thinking && task.thinking !== config.thinkingLevel) {
+    if (!(THINKING_LEVELS as readonly string[]).includes(task.thinking)) {
+      errors.push(`/metadata/thinking: ${task.thinking} is not a thinking level (${THINKING_LEVELS.join(", ")})`);
+    } else if (!config.thinkingAllowlist.includes(task.thinking)) {
+      errors.push(`/metadata/thinking: ${task.thinking} is not on this knight's thinking allowlist`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Answer a task that can't run as sent (an invalid envelope, a disallowed override) with
+ * an `outcome: "rejected"` result listing the errors, and dead-letter the payload so it
+ * can be fixed and replayed.
+ */
+async function rejectTask(config: KnightConfig, task: ParsedTask, errors: string[], reason: string): Promise<void> {
+  const error = `Task rejected: ${reason} (${errors.length} error${errors.length === 1 ? "" : "s"})`;
+  log.warn("Task rejected", { taskId: task.taskId, subject: task.subject, reason, errors });
+  metrics.tasksTotal.labels(config.knightName, "rejected").inc();
+  await publishResult(task.taskId, {
+    task_id: task.taskId,
+    knight: config.knightName,
+    success: false,
+    outcome: "rejected",
+    result: error,
+    error,
+    validation_errors: errors,
+    envelope_version: TASK_ENVELOPE_VERSION,
+    duration_ms: 0,
+    cost: 0,
+    tokens: { input: 0, output: 0 },
+    model: config.knightModel,
+    timestamp: new Date().toISOString(),
+  }).catch((err) => log.error("Failed to publish rejection result", { taskId: task.taskId, error: String(err) }));
+  await publishDeadLetter(task, { kind: "unprocessable", reason: `${error}: ${errors.join("; ")}` });
+}
+
 // Module-level config ref for publishResult (set during subscribe)
 let _config: KnightConfig | null = null;
 
+/**
+ * Where an offloaded result body lives. Knights are told never to truncate results, so a
+ * long report can exceed the server's max payload; past RESULT_OFFLOAD_BYTES the `result`
+ * text (JSON if it isn't a string), and then the structured `data` as JSON, go to a
+ * JetStream Object Store bucket and the message carries this instead.
+ */
+export interface ResultRef {
+  bucket: string;
+  name: string;
+  /** Size of the UTF-8 object in bytes. */
+  size: number;
+  /** Hex SHA-256 of the UTF-8 object. */
+  sha256: string;
+}
+
+/** How much of an offloaded result stays inline, for consumers that don't follow refs. */
+const RESULT_PREVIEW_CHARS = 2000;
+
+/** The result message for an offloaded result: a preview in `result`, the ref in `result_ref`. */
+export function offloadedResult(result: Record<string, unknown>, ref: ResultRef): Record<string, unknown> {
+  const text = String(result.result ?? "");
+  return {
+    ...result,
+    result: `${text.slice(0, RESULT_PREVIEW_CHARS)}\n\n[Full result (${ref.size} bytes) in object store ${ref.bucket}/${ref.name}]`,
+    result_ref: ref,
+  };
+}
+
+/** The result message with its structured output offloaded: `data` moves to `data_ref`. */
+export function offloadedData(result: Record<string, unknown>, ref: ResultRef): Record<string, unknown> {
+  const { data: _data, ...rest } = result;
+  return { ...rest, data_ref: ref };
+}
+
+export function sha256Hex(data: Uint8Array): string {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+let resultStore: ObjectStore | null = null;
+
+async function putResultObject(config: KnightConfig, taskId: string, text: string): Promise<ResultRef> {
+  if (!js) throw new Error("NATS not connected — cannot offload result");
+  // Opens the bucket, creating it on first use.
+  resultStore ??= await js.views.os(config.resultObjectBucket, {
+    description: "Pi-Knight results too large for a single message",
+    ttl: config.resultObjectTtlMs * 1_000_000, // nanoseconds
+  });
+  const data = sc.encode(text);
+  await resultStore.putBlob({ name: taskId }, data);
+  return { bucket: config.resultObjectBucket, name: taskId, size: data.length, sha256: sha256Hex(data) };
+}
+
+/**
+ * Fetch an offloaded result's full text, verifying its size and checksum. Throws when the
+ * object is gone (e.g. past RESULT_OBJECT_TTL_MS) or doesn't match the ref.
+ */
+export async function fetchResultRef(ref: ResultRef): Promise<string> {
+  if (!js) throw new Error("NATS not connected — cannot fetch result");
+  const store = await js.views.os(ref.bucket);
+  const data = await store.getBlob(ref.name);
+  if (!data) throw new Error(`result object ${ref.bucket}/${ref.name} not found (expired?)`);
+  if (data.length !== ref.size || sha256Hex(data) !== ref.sha256) {
+    throw new Error(`result object ${ref.bucket}/${ref.name} failed checksum verification`);
+  }
+  return sc.decode(data);
+}
+
+/** Redact a result and publish it. */
 export async function publishResult(
   taskId: string,
   result: Record<string, unknown>,
+): Promise<void> {
+  await publishRedactedResult(taskId, getRedactor().redactDeep(result));
+}
+
+/**
+ * Publish a result that is already redacted — the copy the idempotency store keeps, so the
+ * stored and published results are the same and each is redacted once.
+ */
+export async function publishRedactedResult(
+  taskId: string,
+  result: Record<string, unknown>,
 ): Promise<void> {
   if (!js) throw new Error("NATS not connected — cannot publish result");
 
   const prefix = _config?.natsResultsPrefix ?? "fleet-a.results";
   const subject = `${prefix}.${taskId}`;
-  const data = sc.encode(JSON.stringify(result));
+  let data = sc.encode(JSON.stringify(result));
+  const threshold = _config?.resultOffloadBytes ?? 0;
+  // The answer text goes first; the structured output follows if the message is still too big.
+  if (_config && threshold > 0 && data.length > threshold && result.result !== undefined && result.result !== null) {
+    const text = typeof result.result === "string" ? result.result : JSON.stringify(result.result);
+    if (text.length > RESULT_PREVIEW_CHARS) {
+      const ref = await putResultObject(_config, taskId, text);
+      result = offloadedResult({ ...result, result: text }, ref);
+      data = sc.encode(JSON.stringify(result));
+      log.info("Result offloaded to object store", { taskId, bucket: ref.bucket, size: ref.size });
+    }
+  }
+  if (_config && threshold > 0 && data.length > threshold && result.data !== undefined) {
+    const ref = await putResultObject(_config, `${taskId}.data`, JSON.stringify(result.data));
+    result = offloadedData(result, ref);
+    data = sc.encode(JSON.stringify(result));
+    log.info("Structured output offloaded to object store", { taskId, bucket: ref.bucket, size: ref.size });
+  }
+  const maxPayload = nc?.info?.max_payload ?? 0;
+  if (maxPayload > 0 && data.length > maxPayload) {
+    throw new Error(`result message for ${taskId} is ${data.length} bytes, over the server's max_payload of ${maxPayload}${threshold > 0 ? " even after offloading" : " (RESULT_OFFLOAD_BYTES is 0)"}`);
+  }
   await js.publish(subject, data);
   log.info("Result published", { taskId, subject });
 }
 
+/**
+ * Why a task was dead-lettered: it could never run, it ran and failed for good, or it
+ * finished but its result could not be published.
+ */
+export type DeadLetterKind = "unprocessable" | "failed" | "unpublished";
+
+export interface DeadLetterFailure {
+  kind: DeadLetterKind;
+  reason: string;
+  attempt?: number;
+  /** The result that could not be published (kind "unpublished"); it replaces the task payload. */
+  result?: Record<string, unknown>;
+}
+
+/** Headers carried by a dead letter. The payload itself is the original, untouched. */
+export const DEAD_LETTER_HEADERS = {
+  kind: "Pi-Knight-DL-Kind",
+  reason: "Pi-Knight-DL-Reason",
+  knight: "Pi-Knight-DL-Knight",
+  taskId: "Pi-Knight-DL-Task-Id",
+  subject: "Pi-Knight-DL-Original-Subject",
+  attempt: "Pi-Knight-DL-Attempt",
+  receivedAt: "Pi-Knight-DL-Received-At",
+  failedAt: "Pi-Knight-DL-Failed-At",
+} as const;
+
+/**
+ * Build the dead letter for a task: `<deadLetterSubject>.<knight>.<taskId>`, the raw
+ * payload as dispatched, and failure metadata as headers. Tasks without a raw payload
+ * (journaled before it was kept) are re-serialized from the parsed fields.
+ *
+ * A dead letter carrying a result holds that result instead, with the result subject as
+ * its original subject: replaying it delivers the answer without running the task again.
+ */
+export function buildDeadLetter(
+  config: KnightConfig,
+  task: ParsedTask,
+  failure: DeadLetterFailure,
+  now = new Date(),
+): { subject: string; payload: string; headers: Record<string, string> } {
+  if (failure.result) {
+    return {
+      subject: `${config.deadLetterSubject}.${config.knightName}.${task.taskId}`,
+      payload: JSON.stringify(failure.result),
+      headers: deadLetterHeaders(config, task, failure, `${config.natsResultsPrefix}.${task.taskId}`, now),
+    };
+  }
+  const payload = task.raw ?? JSON.stringify({
+    task: task.task,
+    task_id: task.taskId,
+    domain: task.domain,
+    from: task.from,
+    runId: task.runId,
+    thread_id: task.threadId,
+    reply_to_task_id: task.replyToTaskId,
+    priority: task.priority,
+    ...(task.timeoutMs ? { metadata: { timeout_ms: task.timeoutMs } } : {}),
+  });
+  return {
+    subject: `${config.deadLetterSubject}.${config.knightName}.${task.taskId}`,
+    payload,
+    headers: deadLetterHeaders(config, task, failure, task.subject, now),
+  };
+}
+
+function deadLetterHeaders(
+  config: KnightConfig,
+  task: ParsedTask,
+  failure: DeadLetterFailure,
+  originalSubject: string | undefined,
+  now: Date,
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    [DEAD_LETTER_HEADERS.kind]: failure.kind,
+    // Header values are single-line; keep the reason readable but bounded.
+    [DEAD_LETTER_HEADERS.reason]: failure.reason.replace(/\s+/g, " ").slice(0, 1000),
+    [DEAD_LETTER_HEADERS.knight]: config.knightName,
+    [DEAD_LETTER_HEADERS.taskId]: task.taskId,
+    [DEAD_LETTER_HEADERS.failedAt]: now.toISOString(),
+  };
+  if (originalSubject) headers[DEAD_LETTER_HEADERS.subject] = originalSubject;
+  if (failure.attempt !== undefined) headers[DEAD_LETTER_HEADERS.attempt] = String(failure.attempt);
+  if (task.receivedAt) headers[DEAD_LETTER_HEADERS.receivedAt] = task.receivedAt;
+  return headers;
+}
+
+/**
+ * Republish a task's original payload to the dead-letter subject. Never throws: a failed
+ * dead-letter publish is logged, and the task's own failure handling carries on.
+ */
+export async function publishDeadLetter(task: ParsedTask, failure: DeadLetterFailure): Promise<void> {
+  if (!js || !_config?.deadLetterSubject) return;
+  const letter = buildDeadLetter(_config, task, failure);
+  const h = natsHeaders();
+  for (const [key, value] of Object.entries(letter.headers)) h.set(key, value);
+  try {
+    await js.publish(letter.subject, sc.encode(letter.payload), { headers: h });
+    metrics.deadLettersTotal.labels(_config.knightName, failure.kind).inc();
+    log.warn("Task dead-lettered", { taskId: task.taskId, subject: letter.subject, kind: failure.kind, reason: failure.reason });
+  } catch (err) {
+    log.error("Dead-letter publish failed", { taskId: task.taskId, subject: letter.subject, error: String(err) });
+  }
+}
+
 export async function drain(): Promise<void> {
   if (consumer) {
     await consumer.close();
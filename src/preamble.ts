@@ -0,0 +1,135 @@
+/**
+ * The knight's system preamble, rendered from a template.
+ *
+ * The preamble used to be hardcoded, fleet-specific text (vault rules included), so any
+ * other deployment had to fork the runtime. It is now a template read from the first of:
+ *
+ *   1. KNIGHT_PREAMBLE_TEMPLATE, when set;
+ *   2. /data/PREAMBLE.md (the knight's own copy on the PVC);
+ *   3. /config/PREAMBLE.md (ConfigMap);
+ *   4. the built-in default below — the original preamble.
+ *
+ * `{{name}}` placeholders are filled from the knight's config (see PreambleVariables). A
+ * line with an empty placeholder is dropped, so an empty KNIGHT_VAULT_PATH removes the
+ * vault line from the default. Unknown placeholders are left as written.
+ *
+ * The template is re-read whenever a session loads its resources, so a hot reload picks
+ * up an edited file.
+ */
+import { existsSync, readFileSync } from "node:fs";
+import { natsPrefix, type KnightConfig } from "./config.js";
+import { log } from "./logger.js";
+
+/** Template files tried in order when KNIGHT_PREAMBLE_TEMPLATE is unset. */
+export const PREAMBLE_TEMPLATE_FILES = ["/data/PREAMBLE.md", "/config/PREAMBLE.md"];
+
+export interface PreambleVariables {
+  knight: string;
+  model: string;
+  workspace: string;
+  skills_path: string;
+  vault_path: string;
+  vault_rules: string;
+  table_prefix: string;
+}
+
+export interface Preamble {
+  /** Template file the preamble came from, or "built-in". */
+  source: string;
+  text: string;
+}
+
+export const DEFAULT_PREAMBLE_TEMPLATE = `You are {{knight}}, a Knight of the Round Table.
+You are a specialized AI agent running as a Kubernetes pod in the Round Table fleet.
+The current model is {{model}}.
+
+<runtime_context>
+Knight: {{knight}}
+Model: {{model}}
+Workspace: {{workspace}} (persistent PVC — survives restarts)
+Skills: {{skills_path}} (read-only, operator-managed)
+Vault: {{vault_path}} ({{vault_rules}})
+</runtime_context>
+
+<default_to_action>
+By default, implement changes rather than only suggesting them. If the task's intent is
+unclear, infer the most useful likely action and proceed, using tools to discover any
+missing details instead of guessing. Your text response IS the deliverable — when asked
+to write a report, your response IS that report. Never describe what you would write.
+</default_to_action>
+
+<use_parallel_tool_calls>
+If you intend to call multiple tools and there are no dependencies between the calls,
+make all independent calls in parallel. For example, when reading 3 files, read all 3
+at once. Maximize parallel tool calls where possible. However, if some calls depend on
+previous results, call those sequentially. Never use placeholders or guess missing
+parameters in tool calls.
+</use_parallel_tool_calls>
+
+<critical_rules>
+1. Read MEMORY.md and SOUL.md at the start of each task for accumulated context.
+2. Log your work to memory/YYYY-MM-DD.md after each task.
+3. NEVER truncate results. If the task asks for full output, provide full output.
+4. NEVER create files unless necessary for the task. Prefer editing existing files.
+5. If a tool call fails, understand WHY before retrying — don't loop on the same error.
+6. Prefer targeted file reads (offset/limit) over loading entire files.
+7. ALWAYS end the task with a final plain-text message stating the result or deliverable.
+   The runtime publishes that final text as your task result — if you stop after a tool
+   call, or end with an empty message, the task is reported as FAILED with no output,
+   even when the tool work itself succeeded. After tool use, summarize what you did and
+   state the deliverable in text.
+</critical_rules>`;
+
+export function preambleVariables(config: KnightConfig): PreambleVariables {
+  return {
+    knight: config.knightName,
+    model: config.knightModel,
+    workspace: "/data",
+    skills_path: "/skills",
+    vault_path: config.vaultPath,
+    vault_rules: config.vaultRules,
+    table_prefix: natsPrefix(config),
+  };
+}
+
+/** Fill `{{name}}` placeholders, dropping lines where any of them is empty. */
+export function renderPreamble(template: string, vars: PreambleVariables): string {
+  const values = vars as unknown as Record<string, string>;
+  const placeholder = /\{\{\s*(\w+)\s*\}\}/g;
+  return template
+    .split("\n")
+    .filter((line) => {
+      const names = [...line.matchAll(placeholder)].map((m) => m[1]).filter((n) => n in values);
+      return names.every((n) => values[n] !== "");
+    })
+    .map((line) => line.replace(placeholder, (match, name: string) => (name in values ? values[name] : match)))
+    .join("\n");
+}
+
+/** The template in effect and where it came from. An unreadable file falls back to the default. */
+export function loadPreambleTemplate(config: KnightConfig): { source: string; template: string } {
+  const candidates = config.preambleTemplatePath ? [config.preambleTemplatePath] : PREAMBLE_TEMPLATE_FILES;
+  for (const path of candidates) {
+    if (!existsSync(path)) {
+      if (path === config.preambleTemplatePath) log.warn("Preamble template not found — using the built-in preamble", { path });
+      continue;
+    }
+    try {
+      return { source: path, template: readFileSync(path, "utf-8") };
+    } catch (err) {
+      log.warn("Cannot read preamble template — using the built-in preamble", { path, error: String(err) });
+      break;
+    }
+  }
+  return { source: "built-in", template: DEFAULT_PREAMBLE_TEMPLATE };
+}
+
+/**
+ * Render the knight's preamble from its current template. It goes in before AGENTS.md and
+ * the skills (which the resource loader adds), so it should hold runtime identity and the
+ * guardrails that apply to every knight, not personality.
+ */
+export function buildPreamble(config: KnightConfig): Preamble {
+  const { source, template } = loadPreambleTemplate(config);
+  return { source, text: renderPreamble(template, preambleVariables(config)) };
+}
@@ -0,0 +1,161 @@
+/**
+ * Live progress streaming for running tasks.
+ *
+ * A task's final result can take up to the full task timeout to land, so while it runs we
+ * relay the AgentSession event stream to `<prefix>.progress.<taskId>`: tool calls starting
+ * and finishing, assistant text as it streams, compaction and LLM retries. Dashboards and
+ * nats_request callers can show what the knight is doing instead of a blind wait.
+ *
+ * Progress is best-effort telemetry, published on core NATS (no JetStream persistence),
+ * with secrets redacted like the final result.
+ * Text deltas are coalesced and flushed at most once per throttle window; every other
+ * event flushes pending text first so consumers see events in order.
+ */
+import type { AgentSession, AgentSessionEvent } from "@earendil-works/pi-coding-agent";
+import { natsPrefix, type KnightConfig } from "./config.js";
+import { log } from "./logger.js";
+import { getConnection, StringCodec } from "./nats.js";
+import { getRedactor } from "./redact.js";
+import type { SteerMode } from "./steer.js";
+
+const sc = StringCodec();
+
+export type ProgressEvent =
+  | { type: "started" }
+  | { type: "tool_start"; tool: string; toolCallId: string }
+  | { type: "tool_end"; tool: string; toolCallId: string; isError: boolean; durationMs: number }
+  | { type: "text"; text: string }
+  | { type: "compaction_start"; reason: string }
+  | { type: "compaction_end"; reason: string; aborted: boolean }
+  | { type: "retry"; attempt: number; maxAttempts: number; delayMs: number; error: string }
+  | { type: "steer"; mode: SteerMode; text: string; from?: string }
+  | { type: "finished" };
+
+/**
+ * Turns session events into throttled progress events. Transport-agnostic — the caller
+ * supplies `publish` — so the mapping and coalescing can be tested without NATS.
+ */
+export class ProgressStream {
+  private pendingText = "";
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private readonly toolStarts = new Map<string, number>();
+  private closed = false;
+
+  constructor(
+    private readonly publish: (event: ProgressEvent) => void,
+    private readonly throttleMs: number,
+  ) {}
+
+  handle(event: AgentSessionEvent): void {
+    if (this.closed) return;
+    switch (event.type) {
+      case "message_update":
+        if (event.assistantMessageEvent.type === "text_delta") {
+          this.pendingText += event.assistantMessageEvent.delta;
+          this.flushTimer ??= setTimeout(() => this.flushText(), this.throttleMs);
+        }
+        return;
+      case "tool_execution_start":
+        this.toolStarts.set(event.toolCallId, Date.now());
+        this.emit({ type: "tool_start", tool: event.toolName, toolCallId: event.toolCallId });
+        return;
+      case "tool_execution_end": {
+        const started = this.toolStarts.get(event.toolCallId);
+        this.toolStarts.delete(event.toolCallId);
+        this.emit({
+          type: "tool_end",
+          tool: event.toolName,
+          toolCallId: event.toolCallId,
+          isError: event.isError,
+          durationMs: started ? Date.now() - started : 0,
+        });
+        return;
+      }
+      case "compaction_start":
+        this.emit({ type: "compaction_start", reason: event.reason });
+        return;
+      case "compaction_end":
+        this.emit({ type: "compaction_end", reason: event.reason, aborted: event.aborted });
+        return;
+      case "auto_retry_start":
+        this.emit({
+          type: "retry",
+          attempt: event.attempt,
+          maxAttempts: event.maxAttempts,
+          delayMs: event.delayMs,
+          error: event.errorMessage,
+        });
+        return;
+    }
+  }
+
+  /** Publish a non-session event (started/finished) through the same ordered path. */
+  emit(event: ProgressEvent): void {
+    if (this.closed) return;
+    this.flushText();
+    this.publish(event);
+  }
+
+  /** Flush pending text and emit `finished`. Later events are dropped. */
+  close(): void {
+    this.emit({ type: "finished" });
+    this.closed = true;
+  }
+
+  private flushText(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (!this.pendingText) return;
+    const text = this.pendingText;
+    this.pendingText = "";
+    this.publish({ type: "text", text });
+  }
+}
+
+/** Subject a task's progress events are published on. */
+export function progressSubject(config: KnightConfig, taskId: string): string {
+  return `${natsPrefix(config)}.progress.${taskId}`;
+}
+
+export interface ProgressHandle {
+  /** Publish a runtime event (e.g. a steer acknowledgement) in order with the session's. */
+  emit(event: ProgressEvent): void;
+  stop(): void;
+}
+
+/**
+ * Stream a task's session events to `<prefix>.progress.<taskId>` until the returned
+ * handle is stopped. A no-op when progress is disabled or NATS isn't connected.
+ */
+export function startProgressStream(session: AgentSession, config: KnightConfig, taskId: string): ProgressHandle {
+  const nc = getConnection();
+  if (!config.progressEnabled || !nc) return { emit: () => {}, stop: () => {} };
+
+  const subject = progressSubject(config, taskId);
+  let seq = 0;
+  const stream = new ProgressStream((event) => {
+    try {
+      nc.publish(subject, sc.encode(JSON.stringify({
+        task_id: taskId,
+        knight: config.knightName,
+        seq: seq++,
+        timestamp: new Date().toISOString(),
+        ...getRedactor().redactDeep(event),
+      })));
+    } catch (err) {
+      log.debug("Progress publish failed", { taskId, error: String(err) });
+    }
+  }, config.progressThrottleMs);
+
+  const unsubscribe = session.subscribe((event) => stream.handle(event));
+  stream.emit({ type: "started" });
+  return {
+    emit: (event) => stream.emit(event),
+    stop: () => {
+      unsubscribe();
+      stream.close();
+    },
+  };
+}
@@ -0,0 +1,194 @@
+/**
+ * Secret redaction for tool results, logs, audit records and published results.
+ *
+ * Well-known token shapes (SECRET_PATTERNS) miss most of what a knight can actually leak:
+ * `env` or `cat` of a mounted file prints OPENROUTER_API_KEY, NATS credentials or a
+ * custom provider's key in whatever format it has. So the redactor also knows the pod's
+ * own secrets by value — every env var whose name matches REDACT_ENV_VARS and the
+ * contents of the files under REDACT_SECRET_FILES — and replaces them wherever they turn
+ * up. With REDACT_ENTROPY on (off by default), long high-entropy tokens (random keys
+ * nobody configured) are redacted too; hex hashes and UUIDs stay below the threshold, but
+ * base64 content, signed URLs and the like may not.
+ */
+import { readdirSync, readFileSync, statSync } from "node:fs";
+import { join } from "node:path";
+import type { KnightConfig } from "./config.js";
+import { log, setLogScrubber } from "./logger.js";
+import { globToRegExp } from "./tool-policy.js";
+
+export const REDACTED = "[REDACTED]";
+
+/** Patterns that indicate secrets in tool output */
+export const SECRET_PATTERNS: RegExp[] = [
+  /(?:api[_-]?key|apikey|secret[_-]?key|access[_-]?token|auth[_-]?token|bearer)\s*[:=]\s*['"]?[A-Za-z0-9_\-/.+=]{20,}/gi,
+  /-----BEGIN (?:RSA |EC |DSA |OPENSSH )?PRIVATE KEY-----/gi,
+  /ghp_[A-Za-z0-9_]{36,}/g,     // GitHub PATs
+  /ghs_[A-Za-z0-9_]{36,}/g,     // GitHub app tokens
+  /sk-[A-Za-z0-9]{40,}/g,       // OpenAI keys
+  /xoxb-[A-Za-z0-9\-]+/g,       // Slack bot tokens
+  /AKIA[A-Z0-9]{16}/g,          // AWS access keys
+];
+
+/** Shorter values ("true", a port) would redact half the output. */
+const MIN_SECRET_LENGTH = 8;
+
+/** Candidate random tokens: long runs of key-ish characters. */
+const TOKEN_PATTERN = /[A-Za-z0-9+_=-]{32,}/g;
+
+/**
+ * Bits per character from which a token counts as random. Hex (at most 4 bits) never
+ * reaches it and long identifiers stay just under 4; a random 32-character base64 key
+ * scores about 4.5.
+ */
+const ENTROPY_THRESHOLD = 4.2;
+
+/** Secret files larger than this aren't secrets (and aren't read). */
+const MAX_SECRET_FILE_BYTES = 64 * 1024;
+
+export class Redactor {
+  private readonly values: string[];
+
+  constructor(values: Iterable<string>, private readonly entropy: boolean) {
+    const all = new Set<string>();
+    for (const value of values) {
+      if (value.length < MIN_SECRET_LENGTH) continue;
+      all.add(value);
+      // As it appears inside a JSON string (quotes, backslashes, newlines escaped).
+      all.add(JSON.stringify(value).slice(1, -1));
+    }
+    // Longest first, so a secret that contains another is replaced whole.
+    this.values = [...all].sort((a, b) => b.length - a.length);
+  }
+
+  get valueCount(): number {
+    return this.values.length;
+  }
+
+  /** Replace every secret in `text`; `redactions` counts the replacements. */
+  redact(text: string): { text: string; redactions: number } {
+    let redactions = 0;
+    for (const value of this.values) {
+      if (!text.includes(value)) continue;
+      const parts = text.split(value);
+      redactions += parts.length - 1;
+      text = parts.join(REDACTED);
+    }
+    for (const pattern of SECRET_PATTERNS) {
+      pattern.lastIndex = 0;
+      text = text.replace(pattern, () => {
+        redactions++;
+        return REDACTED;
+      });
+    }
+    if (this.entropy) {
+      text = text.replace(TOKEN_PATTERN, (token) => {
+        if (!looksRandom(token)) return token;
+        redactions++;
+        return REDACTED;
+      });
+    }
+    return { text, redactions };
+  }
+
+  /**
+   * Whether `text` holds a known secret value or a well-known token shape. The entropy
+   * heuristic is left out: it is fine for masking output, too loose for refusing a write.
+   */
+  containsSecret(text: string): boolean {
+    if (this.values.some((value) => text.includes(value))) return true;
+    return SECRET_PATTERNS.some((pattern) => {
+      pattern.lastIndex = 0;
+      return pattern.test(text);
+    });
+  }
+
+  /** Redact every string in a JSON-like value (objects and arrays are copied). */
+  redactDeep<T>(value: T): T {
+    if (typeof value === "string") return this.redact(value).text as T;
+    if (Array.isArray(value)) return value.map((v) => this.redactDeep(v)) as T;
+    if (value && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+      return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, this.redactDeep(v)])) as T;
+    }
+    return value;
+  }
+}
+
+/** Shannon entropy of `text`, in bits per character. */
+export function shannonEntropy(text: string): number {
+  const counts = new Map<string, number>();
+  for (const c of text) counts.set(c, (counts.get(c) ?? 0) + 1);
+  let bits = 0;
+  for (const n of counts.values()) {
+    const p = n / text.length;
+    bits -= p * Math.log2(p);
+  }
+  return bits;
+}
+
+function looksRandom(token: string): boolean {
+  return /[0-9]/.test(token) && /[A-Za-z]/.test(token) && shannonEntropy(token) >= ENTROPY_THRESHOLD;
+}
+
+/** Values of the env vars whose names match one of `patterns` (`*` globs, any case). */
+export function secretEnvValues(patterns: string[], env: NodeJS.ProcessEnv = process.env): string[] {
+  const names = patterns.map((p) => new RegExp(globToRegExp(p, false).source, "i"));
+  return Object.entries(env)
+    .filter(([name, value]) => value && names.some((re) => re.test(name)))
+    .map(([, value]) => value!.trim());
+}
+
+/**
+ * Secrets in the given files, or the files directly in the given directories (a mounted
+ * Secret has one file per key). Each file's whole content counts, and so does each long
+ * line of it — a NATS creds file holds a JWT and a seed between marker lines.
+ */
+export function secretFileValues(paths: string[]): string[] {
+  const values: string[] = [];
+  const readSecret = (file: string) => {
+    try {
+      const stat = statSync(file);
+      if (!stat.isFile() || stat.size > MAX_SECRET_FILE_BYTES) return;
+      const content = readFileSync(file, "utf-8").trim();
+      values.push(content);
+      for (const line of content.split("\n")) {
+        const trimmed = line.trim();
+        if (trimmed.length >= 16 && !trimmed.startsWith("-----") && trimmed !== content) values.push(trimmed);
+      }
+    } catch {
+      // Unreadable — nothing to redact from it.
+    }
+  };
+  for (const path of paths) {
+    try {
+      if (statSync(path).isDirectory()) {
+        // Skip Kubernetes' `..data` bookkeeping; the key files link into it.
+        for (const name of readdirSync(path)) if (!name.startsWith(".")) readSecret(join(path, name));
+      } else {
+        readSecret(path);
+      }
+    } catch {
+      log.warn("Secret file not found — skipping", { path });
+    }
+  }
+  return values;
+}
+
+// ─── Module state ──────────────────────────────────────────────────
+
+let redactor = new Redactor([], false);
+
+/** Learn the pod's secrets (startup) and scrub logs from here on. */
+export function initRedactor(config: KnightConfig): Redactor {
+  redactor = new Redactor(
+    [...secretEnvValues(config.redactEnvVars), ...secretFileValues(config.redactSecretFiles)],
+    config.redactEntropy,
+  );
+  setLogScrubber((value) => redactor.redactDeep(value));
+  log.info("Secret redaction enabled", { values: redactor.valueCount, entropy: config.redactEntropy });
+  return redactor;
+}
+
+/** The active redactor — token patterns only until `initRedactor` has run. */
+export function getRedactor(): Redactor {
+  return redactor;
+}
@@ -0,0 +1,275 @@
+/**
+ * Hot reload of skills, personality files and the preamble template.
+ *
+ * Skills and context files are read when a session is created, so a git-sync of /skills or
+ * a ConfigMap update of SOUL.md used to need a pod restart. The reloader watches /skills,
+ * /config and the personality files in /data; after HOT_RELOAD_DEBOUNCE_MS of quiet it
+ *
+ * 1. syncs changed personality files from /config into /data, hash-gated like the
+ *    entrypoint (so a knight's own edits survive until the ConfigMap really changes) —
+ *    the copies it makes don't trigger another reload;
+ * 2. reloads every pooled session's resource loader between tasks — each waits for the
+ *    task holding it to finish, and tasks queued behind it wait for the reload;
+ * 3. logs the outcome with which skills were added and removed.
+ *
+ * A reload can also be forced: `nats req <prefix>.reload.<knight> ''` or `POST /reload`
+ * on the health port. Both answer with the outcome.
+ */
+import { createHash } from "node:crypto";
+import { copyFileSync, existsSync, mkdirSync, readFileSync, watch, writeFileSync, type FSWatcher } from "node:fs";
+import { join } from "node:path";
+import type { Subscription } from "nats";
+import { loadSkills } from "@earendil-works/pi-coding-agent";
+import { natsPrefix, type KnightConfig } from "./config.js";
+import { log } from "./logger.js";
+import { getConnection, StringCodec } from "./nats.js";
+import * as metrics from "./metrics.js";
+
+const sc = StringCodec();
+
+export interface ReloadPaths {
+  skills: string;
+  config: string;
+  data: string;
+}
+
+const DEFAULT_PATHS: ReloadPaths = { skills: "/skills", config: "/config", data: "/data" };
+
+/** Personality files the entrypoint copies from the ConfigMap into /data. */
+export const CONFIG_SYNCED_FILES = ["SOUL.md", "IDENTITY.md", "TOOLS.md"];
+/**
+ * /data files that trigger a reload: the synced ones, AGENTS.md (which sessions load as
+ * context) and the preamble template.
+ */
+const WATCHED_DATA_FILES = new Set([...CONFIG_SYNCED_FILES, "AGENTS.md", "PREAMBLE.md"]);
+
+/** What started a reload. */
+export type ReloadTrigger = "watch" | "nats" | "http";
+
+export interface SkillsDiff {
+  count: number;
+  added: string[];
+  removed: string[];
+}
+
+export interface ReloadOutcome {
+  trigger: ReloadTrigger;
+  ok: boolean;
+  skills: SkillsDiff;
+  /** Personality files copied from /config into /data. */
+  synced: string[];
+  /** Sessions whose resources were reloaded. */
+  sessions: number;
+  durationMs: number;
+  error?: string;
+}
+
+/** Names of the skills a session would load — the same discovery as startup. */
+export function scanSkills(paths: ReloadPaths = DEFAULT_PATHS): string[] {
+  const { skills } = loadSkills({
+    cwd: paths.data,
+    agentDir: paths.config,
+    skillPaths: [paths.skills],
+    includeDefaults: true,
+  });
+  return skills.map((s) => s.name);
+}
+
+export function diffSkills(before: string[], after: string[]): SkillsDiff {
+  const prev = new Set(before);
+  const next = new Set(after);
+  return {
+    count: next.size,
+    added: [...next].filter((n) => !prev.has(n)).sort(),
+    removed: [...prev].filter((n) => !next.has(n)).sort(),
+  };
+}
+
+/**
+ * Copy personality files from /config to /data where the ConfigMap content changed since
+ * it was last copied (hashes in /data/.config-hashes, shared with the entrypoint).
+ * Returns the files copied.
+ */
+export function syncConfigFiles(paths: ReloadPaths = DEFAULT_PATHS): string[] {
+  const hashDir = join(paths.data, ".config-hashes");
+  const synced: string[] = [];
+  for (const name of CONFIG_SYNCED_FILES) {
+    const source = join(paths.config, name);
+    if (!existsSync(source)) continue;
+    const hash = fileHash(source);
+    const hashFile = join(hashDir, name);
+    const stored = existsSync(hashFile) ? readFileSync(hashFile, "utf-8").trim() : "";
+    if (hash === stored) continue;
+    mkdirSync(hashDir, { recursive: true });
+    copyFileSync(source, join(paths.data, name));
+    writeFileSync(hashFile, hash + "\n");
+    synced.push(name);
+  }
+  return synced;
+}
+
+function fileHash(path: string): string {
+  return createHash("md5").update(readFileSync(path)).digest("hex");
+}
+
+export interface HotReloaderOptions {
+  /** Reload every session's resources between tasks; returns how many were reloaded. */
+  reloadSessions: () => Promise<number>;
+  /** Called with each completed reload (e.g. to update the health skill count). */
+  onReload?: (outcome: ReloadOutcome) => void;
+  debounceMs: number;
+  knightName: string;
+  paths?: ReloadPaths;
+}
+
+export class HotReloader {
+  private skills: string[];
+  private readonly paths: ReloadPaths;
+  private watchers: FSWatcher[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  /** Tail of the reload chain — reloads never overlap. */
+  private running: Promise<unknown> = Promise.resolve();
+  /** Hashes of the files the last sync copied into /data: their watch events are its own. */
+  private readonly ownWrites = new Map<string, string>();
+
+  /** @param skills Skill names loaded at startup, the baseline for the first diff. */
+  constructor(
+    private readonly options: HotReloaderOptions,
+    skills: string[],
+  ) {
+    this.skills = skills;
+    this.paths = options.paths ?? DEFAULT_PATHS;
+  }
+
+  /** Watch /skills, /config and the personality files in /data. Missing paths are skipped. */
+  start(): void {
+    const on = (dir: string, recursive: boolean, filter?: (file: string) => boolean) => {
+      if (!existsSync(dir)) return;
+      try {
+        const watcher = watch(dir, { recursive, persistent: false }, (_event, file) => {
+          if (filter && (!file || !filter(String(file)))) return;
+          this.schedule();
+        });
+        watcher.on("error", (err) => log.warn("Reload watcher error", { dir, error: String(err) }));
+        this.watchers.push(watcher);
+      } catch (err) {
+        log.warn("Cannot watch for reload", { dir, error: String(err) });
+      }
+    };
+    on(this.paths.skills, true);
+    on(this.paths.config, false);
+    on(this.paths.data, false, (file) => WATCHED_DATA_FILES.has(file) && !this.isOwnWrite(file));
+    log.info("Hot reload watching", { paths: [this.paths.skills, this.paths.config, this.paths.data], debounceMs: this.options.debounceMs });
+  }
+
+  stop(): void {
+    for (const watcher of this.watchers) watcher.close();
+    this.watchers = [];
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Whether a /data event is a synced copy landing rather than a real change — the reload
+   * that synced it already covers it. Any other content ends the suppression.
+   */
+  private isOwnWrite(file: string): boolean {
+    const hash = this.ownWrites.get(file);
+    if (hash === undefined) return false;
+    const path = join(this.paths.data, file);
+    if (existsSync(path) && fileHash(path) === hash) return true;
+    this.ownWrites.delete(file);
+    return false;
+  }
+
+  /** Reload once changes have been quiet for the debounce interval. */
+  schedule(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.reload("watch");
+    }, this.options.debounceMs);
+  }
+
+  /** Reload now (after any reload already in progress). */
+  reload(trigger: ReloadTrigger): Promise<ReloadOutcome> {
+    const next = this.running.then(() => this.run(trigger));
+    this.running = next;
+    return next;
+  }
+
+  private async run(trigger: ReloadTrigger): Promise<ReloadOutcome> {
+    const start = Date.now();
+    let synced: string[] = [];
+    let skills = diffSkills(this.skills, this.skills);
+    let sessions = 0;
+    try {
+      synced = syncConfigFiles(this.paths);
+      for (const name of synced) this.ownWrites.set(name, fileHash(join(this.paths.data, name)));
+      const names = scanSkills(this.paths);
+      skills = diffSkills(this.skills, names);
+      this.skills = names;
+      sessions = await this.options.reloadSessions();
+    } catch (err) {
+      const outcome: ReloadOutcome = { trigger, ok: false, skills, synced, sessions, durationMs: Date.now() - start, error: String(err) };
+      log.error("Hot reload failed", { ...outcome });
+      metrics.reloadsTotal.labels(this.options.knightName, trigger, "error").inc();
+      return outcome;
+    }
+    const outcome: ReloadOutcome = { trigger, ok: true, skills, synced, sessions, durationMs: Date.now() - start };
+    log.info("Hot reload complete", { ...outcome });
+    metrics.reloadsTotal.labels(this.options.knightName, trigger, "ok").inc();
+    this.options.onReload?.(outcome);
+    return outcome;
+  }
+}
+
+let reloader: HotReloader | null = null;
+
+/**
+ * Create the knight's reloader, and start watching unless HOT_RELOAD is off (a forced
+ * reload still works then).
+ */
+export function initHotReloader(
+  config: KnightConfig,
+  skills: string[],
+  options: Pick<HotReloaderOptions, "reloadSessions" | "onReload">,
+): HotReloader {
+  reloader = new HotReloader({ ...options, debounceMs: config.hotReloadDebounceMs, knightName: config.knightName }, skills);
+  if (config.hotReloadEnabled) reloader.start();
+  return reloader;
+}
+
+/** The knight's reloader (or null before startup). Used by the health server. */
+export function getHotReloader(): HotReloader | null {
+  return reloader;
+}
+
+let sub: Subscription | null = null;
+
+/** Answer forced reloads on `<prefix>.reload.<knight>` with the outcome. */
+export function startReloadResponder(config: KnightConfig): void {
+  const nc = getConnection();
+  if (!nc) {
+    log.warn("Cannot start reload responder — NATS not connected");
+    return;
+  }
+
+  const subject = `${natsPrefix(config)}.reload.${config.knightName}`;
+  sub = nc.subscribe(subject);
+  log.info("Reload responder started", { subject });
+
+  (async () => {
+    for await (const msg of sub) {
+      try {
+        if (!reloader) throw new Error("reloader not started");
+        const outcome = await reloader.reload("nats");
+        if (msg.reply) msg.respond(sc.encode(JSON.stringify({ knight: config.knightName, ...outcome })));
+      } catch (err) {
+        const errMsg = err instanceof Error ? err.message : String(err);
+        log.error("Reload handler error", { error: errMsg });
+        if (msg.reply) msg.respond(sc.encode(JSON.stringify({ error: errMsg })));
+      }
+    }
+  })();
+}
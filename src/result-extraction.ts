@@ -1,4 +1,5 @@
 import type { AgentSession } from "@earendil-works/pi-coding-agent";
+import type { StructuredCheck } from "./structured-output.js";
 
 export const NON_DELIVERABLE_PATTERNS = [
   /^\s*\{\s*"(?:type|name)"\s*:\s*"function"/s,
@@ -31,10 +32,12 @@ export function isDeliverableAssistantText(text: string): boolean {
  * stopReason "error"/"aborted" (plus errorMessage) on the final assistant message. If we
  * don't look at those, every API failure, rate limit, and timeout gets reported as the
  * generic "no deliverable output", which sends whoever is debugging after the wrong bug.
+ * `abortCause` names why the task's signal fired (timeout, or an explicit cancel).
  */
 export function describeSessionFailure(
   sess: AgentSession,
   taskAborted: boolean,
+  abortCause = "task timeout",
 ): string | undefined {
   const messages = (sess as AgentSession & { messages?: Array<{ role?: string; stopReason?: string; errorMessage?: string }> }).messages;
   if (Array.isArray(messages)) {
@@ -46,13 +49,29 @@ export function describeSessionFailure(
       }
       if (msg.stopReason === "aborted") {
         return taskAborted
-          ? "Task aborted before producing output (task timeout)"
+          ? `Task aborted before producing output (${abortCause})`
           : "Task aborted before producing output";
       }
       break; // last assistant message is a normal stop — fall through to generic
     }
   }
-  if (taskAborted) return "Task aborted before producing output (task timeout)";
+  if (taskAborted) return `Task aborted before producing output (${abortCause})`;
+  return undefined;
+}
+
+/**
+ * The provider error that ended the session's last turn, or undefined if it ended any
+ * other way. Only the last assistant message counts — an error the SDK auto-retried past
+ * is not a failure. This is what the model fallback chain reacts to.
+ */
+export function lastProviderError(sess: AgentSession): string | undefined {
+  const messages = (sess as AgentSession & { messages?: Array<{ role?: string; stopReason?: string; errorMessage?: string }> }).messages;
+  if (!Array.isArray(messages)) return undefined;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const msg = messages[i];
+    if (msg?.role !== "assistant") continue;
+    return msg.stopReason === "error" ? msg.errorMessage ?? "unknown provider error" : undefined;
+  }
   return undefined;
 }
 
@@ -61,16 +80,39 @@ export function describeSessionFailure(
  * nothing deliverable, the outcome is an explicit failure with an error message — never a
  * sentinel string published as a successful result. (#31) A specific failure reason
  * (LLM error, abort/timeout) takes precedence over the generic no-output message so the
- * real cause is never masked.
+ * real cause is never masked. With an output_schema, the outcome also carries the
+ * validated `data`, or the validation errors when the JSON never matched. A task stopped
+ * by its budget fails with the budget reason, keeping any deliverable as a partial result.
  */
 export function resolveTaskOutcome(
   deliverable: string | undefined,
   failureReason?: string,
+  structured?: StructuredCheck & { repairs: number },
+  budgetExceeded?: string,
 ): {
   result: string;
   success: boolean;
   error?: string;
+  data?: unknown;
+  validationErrors?: string[];
+  budgetExceeded?: boolean;
 } {
+  if (budgetExceeded) {
+    const error = `Budget exceeded: ${budgetExceeded}`;
+    return { result: deliverable ?? error, success: false, error, budgetExceeded: true };
+  }
+  // Structured mode: the parsed JSON is the deliverable. Text that never validated is
+  // kept as the result, but the task failed — the consumer asked for data it didn't get.
+  if (deliverable != null && structured) {
+    if (structured.ok) return { result: deliverable, success: true, data: structured.data };
+    const tries = structured.repairs > 0 ? ` after ${structured.repairs} repair attempt(s)` : "";
+    return {
+      result: deliverable,
+      success: false,
+      error: `Output did not match output_schema${tries}: ${structured.errors.join("; ")}`,
+      validationErrors: structured.errors,
+    };
+  }
   if (deliverable != null) return { result: deliverable, success: true };
   const error = failureReason ?? "Agent produced no deliverable output";
   return { result: error, success: false, error };
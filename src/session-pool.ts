@@ -0,0 +1,210 @@
+/**
+ * Pool of agent sessions keyed by chain run.
+ *
+ * A Pi AgentSession handles one prompt at a time, and a chain run's context must not
+ * bleed into another run's (#31). With a single session every task serialized behind one
+ * lock, so MAX_CONCURRENT_TASKS only ever ran one prompt. The pool keeps one session per
+ * active run (tasks without a runId share one), each with its own lock: tasks of the same
+ * run still serialize on their session, and independent runs prompt in parallel.
+ *
+ * The pool holds at most `maxSessions` sessions. Making room disposes the least recently
+ * used idle session. A spare — created by pre-warming, never prompted, and (per
+ * `isPristine`) carrying no history — has no context to bleed, so a new run adopts it
+ * instead of paying a cold start.
+ */
+import { log } from "./logger.js";
+
+/** Key for tasks that carry no runId: they share one long-lived session. */
+export const SHARED_SESSION_KEY = "";
+
+interface Disposable {
+  dispose(): void;
+}
+
+interface PoolEntry<S> {
+  key: string;
+  session: S | null;
+  creating: Promise<S> | null;
+  /** Tail of this session's prompt chain — each lease waits for the previous one. */
+  lock: Promise<void>;
+  /** Leases held or waiting. An entry with none is idle and may be evicted. */
+  holders: number;
+  /** True once a lease has been granted — the session may hold a run's context. */
+  used: boolean;
+  lastUsed: number;
+}
+
+export interface SessionLease<S> {
+  session: S;
+  /** Release the session for the next task. Idempotent. */
+  release(): void;
+  /** Dispose the leased session and put `next` in its place (session rotation). */
+  replace(next: S): void;
+}
+
+export class SessionPool<S extends Disposable> {
+  private readonly entries = new Map<string, PoolEntry<S>>();
+
+  constructor(
+    private readonly create: () => Promise<S>,
+    private readonly maxSessions: number,
+    private readonly isPristine: (session: S) => boolean = () => true,
+  ) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Created sessions, most recently used first. */
+  sessions(): S[] {
+    return [...this.entries.values()]
+      .filter((e) => e.session)
+      .sort((a, b) => b.lastUsed - a.lastUsed)
+      .map((e) => e.session!);
+  }
+
+  /** Create a session for `key` ahead of its first task (startup pre-warm). */
+  async warm(key: string): Promise<S> {
+    return this.ensureSession(this.entryFor(key));
+  }
+
+  /**
+   * Wait for exclusive use of `key`'s session, creating it (or adopting a spare) if needed.
+   * `create` overrides how a missing session is made — e.g. reopening a saved one, which
+   * a spare can't stand in for. The caller must release the lease, even on failure.
+   */
+  async acquire(key: string, create?: () => Promise<S>): Promise<SessionLease<S>> {
+    const entry = this.entryFor(key, !create);
+    entry.holders++;
+    const prev = entry.lock;
+    let unlock!: () => void;
+    entry.lock = new Promise((resolve) => { unlock = resolve; });
+
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      entry.holders--;
+      entry.lastUsed = Date.now();
+      unlock();
+    };
+
+    await prev;
+    try {
+      const session = await this.ensureSession(entry, create);
+      entry.used = true;
+      entry.lastUsed = Date.now();
+      const lease: SessionLease<S> = {
+        session,
+        release,
+        replace: (next) => {
+          this.dispose(entry);
+          entry.session = next;
+          lease.session = next;
+        },
+      };
+      return lease;
+    } catch (err) {
+      release();
+      throw err;
+    }
+  }
+
+  /**
+   * Run `fn` on every session between tasks: each waits for its current holder to
+   * release it, and tasks queued behind that wait for `fn`. Returns how many sessions
+   * `fn` ran on; a failure is logged and that session left as it was.
+   */
+  async refresh(fn: (session: S) => Promise<void>): Promise<number> {
+    const done = await Promise.all([...this.entries.values()].map(async (entry) => {
+      const prev = entry.lock;
+      let unlock!: () => void;
+      entry.lock = new Promise((resolve) => { unlock = resolve; });
+      try {
+        await prev;
+        const session = entry.session ?? (await entry.creating?.catch(() => null));
+        if (!session) return false;
+        await fn(session);
+        return true;
+      } catch (err) {
+        log.warn("Failed to refresh session", { runId: entry.key || "(shared)", error: String(err) });
+        return false;
+      } finally {
+        unlock();
+      }
+    }));
+    return done.filter(Boolean).length;
+  }
+
+  /** Dispose every session (shutdown). */
+  disposeAll(): void {
+    for (const entry of this.entries.values()) this.dispose(entry);
+    this.entries.clear();
+  }
+
+  private entryFor(key: string, adoptSpare = true): PoolEntry<S> {
+    const existing = this.entries.get(key);
+    if (existing) return existing;
+
+    const spare = adoptSpare && [...this.entries.values()]
+      .find((e) => !e.used && e.holders === 0 && e.session && this.isPristine(e.session));
+    if (spare) {
+      log.info("Adopting pre-warmed unused session", { from: spare.key || "(shared)", to: key || "(shared)" });
+      this.entries.delete(spare.key);
+      spare.key = key;
+      this.entries.set(key, spare);
+      return spare;
+    }
+
+    while (this.entries.size >= this.maxSessions) {
+      const idle = [...this.entries.values()]
+        .filter((e) => e.holders === 0 && !e.creating)
+        .sort((a, b) => a.lastUsed - b.lastUsed)[0];
+      if (!idle) {
+        // Every session is in use — only possible if more tasks run than the pool was
+        // sized for. Go over the limit rather than block a task indefinitely.
+        log.warn("Session pool full with no idle session — exceeding limit", { size: this.entries.size, max: this.maxSessions });
+        break;
+      }
+      log.info("Disposing least recently used session", { runId: idle.key || "(shared)", idleMs: Date.now() - idle.lastUsed });
+      this.dispose(idle);
+      this.entries.delete(idle.key);
+    }
+
+    const entry: PoolEntry<S> = {
+      key,
+      session: null,
+      creating: null,
+      lock: Promise.resolve(),
+      holders: 0,
+      used: false,
+      lastUsed: Date.now(),
+    };
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  // Concurrent callers for the same entry await one creation; a failed creation is
+  // retried by the next caller.
+  private async ensureSession(entry: PoolEntry<S>, create = this.create): Promise<S> {
+    if (entry.session) return entry.session;
+    entry.creating ??= create()
+      .then((session) => {
+        entry.session = session;
+        return session;
+      })
+      .finally(() => {
+        entry.creating = null;
+      });
+    return entry.creating;
+  }
+
+  private dispose(entry: PoolEntry<S>): void {
+    try {
+      entry.session?.dispose();
+    } catch (err) {
+      log.warn("Failed to dispose session", { runId: entry.key || "(shared)", error: String(err) });
+    }
+    entry.session = null;
+  }
+}
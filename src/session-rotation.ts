@@ -0,0 +1,76 @@
+/**
+ * Session rotation by age, size and cost.
+ *
+ * A run's session (and the shared one) otherwise lives until the pod restarts, growing
+ * with every task: more context per prompt, and a session file that takes longer and
+ * longer to load. Before each task the session is checked against SESSION_MAX_MESSAGES,
+ * SESSION_MAX_BYTES, SESSION_MAX_COST_USD and SESSION_MAX_IDLE_MS (0 turns a limit off).
+ * Past any of them the task gets a fresh session, seeded with the knight's session notes
+ * so it keeps its short-term memory. The old session file stays on the PVC.
+ *
+ * Thread sessions are never rotated: a follow-up must resume exactly where its thread
+ * left off.
+ */
+import { statSync } from "node:fs";
+import type { AgentSession } from "@earendil-works/pi-coding-agent";
+import type { KnightConfig } from "./config.js";
+
+export type RotationKind = "messages" | "size" | "cost" | "idle";
+
+export interface SessionUsage {
+  messages: number;
+  bytes: number;
+  cost: number;
+  idleMs: number;
+}
+
+export interface RotationReason {
+  kind: RotationKind;
+  /** Which limit was reached, for the log. */
+  detail: string;
+}
+
+/** Which rotation limit the session has reached, or undefined to keep it. */
+export function rotationReason(config: KnightConfig, usage: SessionUsage): RotationReason | undefined {
+  if (config.sessionMaxMessages > 0 && usage.messages >= config.sessionMaxMessages) {
+    return { kind: "messages", detail: `${usage.messages} messages reached the limit of ${config.sessionMaxMessages}` };
+  }
+  if (config.sessionMaxBytes > 0 && usage.bytes >= config.sessionMaxBytes) {
+    return { kind: "size", detail: `session file of ${usage.bytes} bytes reached the limit of ${config.sessionMaxBytes}` };
+  }
+  if (config.sessionMaxCostUsd > 0 && usage.cost >= config.sessionMaxCostUsd) {
+    return { kind: "cost", detail: `session cost $${usage.cost.toFixed(4)} reached the limit of $${config.sessionMaxCostUsd}` };
+  }
+  if (config.sessionMaxIdleMs > 0 && usage.idleMs >= config.sessionMaxIdleMs) {
+    return { kind: "idle", detail: `idle for ${Math.round(usage.idleMs / 1000)}s, past the limit of ${Math.round(config.sessionMaxIdleMs / 1000)}s` };
+  }
+  return undefined;
+}
+
+/** A session's size, cumulative cost and time since its last entry. */
+export function sessionUsage(sess: AgentSession, now = Date.now()): SessionUsage {
+  const stats = sess.getSessionStats();
+  const file = sess.sessionManager.getSessionFile();
+  let bytes = 0;
+  try {
+    if (file) bytes = statSync(file).size;
+  } catch {
+    // Not flushed yet — a session writes its file with the first assistant message.
+  }
+  const entries = sess.sessionManager.getEntries();
+  const last = entries.length > 0 ? Date.parse(entries[entries.length - 1].timestamp) : NaN;
+  return {
+    messages: stats.totalMessages,
+    bytes,
+    cost: Number.isFinite(stats.cost) ? stats.cost : 0,
+    idleMs: Number.isFinite(last) ? Math.max(0, now - last) : 0,
+  };
+}
+
+/** The message a rotated session starts with, carrying the previous session's notes. */
+export function rotationSeed(notes: string, reason: RotationReason): string {
+  return `[Session rotated: ${reason.detail}. Your earlier conversation is not in context. \
+These are your session notes from it — use them to pick up where you left off.]
+
+${notes.trim()}`;
+}
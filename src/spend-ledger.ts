@@ -0,0 +1,147 @@
+/**
+ * Persistent spend ledger with daily and monthly caps.
+ *
+ * `pi_knight_llm_cost_dollars_total` resets with the pod, so nothing could enforce a
+ * spending ceiling. Every task's spend — and every spawn_subagent's, which runs on its own
+ * session — is appended to a JSONL ledger on the PVC and rolled up by UTC day and month.
+ *
+ * Caps are checked before each task starts:
+ * - soft (SPEND_SOFT_CAP_DAILY_USD / _MONTHLY_USD): log a warning and, with
+ *   SPEND_DEGRADED_MODEL set, run the task on that cheaper model;
+ * - hard (SPEND_HARD_CAP_DAILY_USD / _MONTHLY_USD): reject the task with a result naming
+ *   the cap, and report the knight degraded on /ready until the period rolls over.
+ *
+ * A cap of 0 is off. The ledger keeps the current and previous month; older lines are
+ * dropped when it is loaded.
+ */
+import type { KnightConfig } from "./config.js";
+import { Journal, parseJsonLines } from "./journal.js";
+import { log } from "./logger.js";
+
+export type SpendSource = "task" | "subagent";
+
+export interface SpendRecord {
+  /** ISO timestamp of the spend. */
+  at: string;
+  source: SpendSource;
+  model: string;
+  cost: number;
+  taskId?: string;
+}
+
+export interface SpendCaps {
+  softDailyUsd: number;
+  softMonthlyUsd: number;
+  hardDailyUsd: number;
+  hardMonthlyUsd: number;
+}
+
+export interface SpendStatus {
+  day: string;
+  month: string;
+  dailyUsd: number;
+  monthlyUsd: number;
+  /** Which soft cap is reached, described — undefined when under both. */
+  soft?: string;
+  /** Which hard cap is reached, described — undefined when under both. */
+  hard?: string;
+}
+
+/** UTC day (YYYY-MM-DD) and month (YYYY-MM) a timestamp falls in. */
+export function spendPeriods(at: Date): { day: string; month: string } {
+  const day = at.toISOString().slice(0, 10);
+  return { day, month: day.slice(0, 7) };
+}
+
+/** The month before `month` (YYYY-MM). */
+function previousMonth(month: string): string {
+  const [year, m] = month.split("-").map(Number);
+  return m === 1 ? `${year - 1}-12` : `${year}-${String(m - 1).padStart(2, "0")}`;
+}
+
+/** Parse ledger lines, dropping malformed ones and those before `sinceMonth`. */
+export function replayLedger(contents: string, sinceMonth: string): SpendRecord[] {
+  const records: SpendRecord[] = [];
+  for (const rec of parseJsonLines(contents) as SpendRecord[]) {
+    if (typeof rec?.at !== "string" || typeof rec.cost !== "number" || !Number.isFinite(rec.cost)) continue;
+    if (rec.at.slice(0, 7) >= sinceMonth) records.push(rec);
+  }
+  return records;
+}
+
+function describeCap(period: "daily" | "monthly", spent: number, cap: number, kind: "soft" | "hard"): string {
+  return `${period} spend $${spent.toFixed(2)} reached the ${kind} cap of $${cap}`;
+}
+
+export class SpendLedger {
+  private readonly days = new Map<string, number>();
+  private readonly months = new Map<string, number>();
+  private readonly journal: Journal<SpendRecord>;
+
+  /** @param path JSONL file on the PVC; empty keeps the ledger in memory only. */
+  constructor(
+    path: string,
+    private readonly caps: SpendCaps,
+  ) {
+    this.journal = new Journal(path, "Spend ledger");
+  }
+
+  /** Load this and last month's spend from disk and rewrite the file without older lines. */
+  load(now = new Date()): number {
+    const contents = this.journal.read();
+    if (contents === undefined) return 0;
+    const records = replayLedger(contents, previousMonth(spendPeriods(now).month));
+    for (const rec of records) this.add(rec);
+    this.journal.rewrite(records);
+    return records.length;
+  }
+
+  record(source: SpendSource, model: string, cost: number, taskId?: string, now = new Date()): void {
+    if (!Number.isFinite(cost) || cost <= 0) return;
+    const rec: SpendRecord = { at: now.toISOString(), source, model, cost, ...(taskId ? { taskId } : {}) };
+    this.add(rec);
+    this.journal.append(rec);
+  }
+
+  status(now = new Date()): SpendStatus {
+    const { day, month } = spendPeriods(now);
+    const dailyUsd = this.days.get(day) ?? 0;
+    const monthlyUsd = this.months.get(month) ?? 0;
+    const reached = (kind: "soft" | "hard", dailyCap: number, monthlyCap: number) =>
+      dailyCap > 0 && dailyUsd >= dailyCap ? describeCap("daily", dailyUsd, dailyCap, kind)
+      : monthlyCap > 0 && monthlyUsd >= monthlyCap ? describeCap("monthly", monthlyUsd, monthlyCap, kind)
+      : undefined;
+    const soft = reached("soft", this.caps.softDailyUsd, this.caps.softMonthlyUsd);
+    const hard = reached("hard", this.caps.hardDailyUsd, this.caps.hardMonthlyUsd);
+    return { day, month, dailyUsd, monthlyUsd, ...(soft ? { soft } : {}), ...(hard ? { hard } : {}) };
+  }
+
+  private add(rec: SpendRecord): void {
+    const { day, month } = spendPeriods(new Date(rec.at));
+    this.days.set(day, (this.days.get(day) ?? 0) + rec.cost);
+    this.months.set(month, (this.months.get(month) ?? 0) + rec.cost);
+  }
+}
+
+let ledger: SpendLedger | null = null;
+
+/** Create the knight's spend ledger and load what it spent this and last month. */
+export function initSpendLedger(config: KnightConfig): SpendLedger {
+  ledger = new SpendLedger(config.spendLedgerPath, {
+    softDailyUsd: config.spendSoftCapDailyUsd,
+    softMonthlyUsd: config.spendSoftCapMonthlyUsd,
+    hardDailyUsd: config.spendHardCapDailyUsd,
+    hardMonthlyUsd: config.spendHardCapMonthlyUsd,
+  });
+  const loaded = ledger.load();
+  if (loaded > 0) {
+    const { dailyUsd, monthlyUsd } = ledger.status();
+    log.info("Spend ledger loaded", { records: loaded, dailyUsd, monthlyUsd, path: config.spendLedgerPath });
+  }
+  return ledger;
+}
+
+/** The knight's spend ledger (or null before startup). Used by spawn_subagent. */
+export function getSpendLedger(): SpendLedger | null {
+  return ledger;
+}
@@ -0,0 +1,128 @@
+/**
+ * Mid-task steering over NATS.
+ *
+ * Once a task's prompt is running, the dispatcher could only wait or cancel. A message on
+ *
+ *   <prefix>.steer.<taskId>   payload {"text": "...", "mode": "steer"|"follow_up", "from": "..."}
+ *                             (or plain text)
+ *
+ * is injected into the running session as a user message between turns:
+ * - `steer` (default): delivered once the current turn's tool calls finish, before the
+ *   next LLM call — for corrections;
+ * - `follow_up`: delivered when the agent would otherwise stop — for extra work.
+ *
+ * Delivered messages are part of the session tree like any other user message. Accepted
+ * steers are acknowledged on the task's progress channel. As with task-addressed cancels,
+ * messages for tasks this knight isn't running or queuing are ignored without a reply.
+ */
+import type { Subscription } from "nats";
+import { natsPrefix, type KnightConfig } from "./config.js";
+import { log } from "./logger.js";
+import { getConnection, StringCodec } from "./nats.js";
+
+const sc = StringCodec();
+
+export const STEER_MODES = ["steer", "follow_up"] as const;
+export type SteerMode = (typeof STEER_MODES)[number];
+
+export interface SteerRequest {
+  taskId: string;
+  text: string;
+  mode: SteerMode;
+  from?: string;
+}
+
+/**
+ * Where the task was when the steer arrived. Only a running task takes steering; a task
+ * still queued (or waiting for its session) has not started its prompt yet.
+ */
+export type SteerState = "running" | "queued" | "not_found";
+
+let sub: Subscription | null = null;
+
+/**
+ * Parse a steer message. Returns a string naming the problem when it can't be used (no
+ * text, unknown mode). A non-JSON payload is taken as the text of a `steer`.
+ */
+export function parseSteerRequest(taskId: string, data: string): SteerRequest | string {
+  let body: Record<string, unknown> = {};
+  if (data.trim()) {
+    try {
+      const json = JSON.parse(data);
+      body = json && typeof json === "object" ? json : { text: data.trim() };
+    } catch {
+      body = { text: data.trim() };
+    }
+  }
+  const str = (v: unknown) => (typeof v === "string" && v.trim() ? v.trim() : undefined);
+  const text = str(body.text ?? body.message);
+  if (!text) return "text is required";
+  const mode = str(body.mode) ?? "steer";
+  if (!(STEER_MODES as readonly string[]).includes(mode)) return `mode must be one of ${STEER_MODES.join(", ")}`;
+  const from = str(body.from);
+  return { taskId, text, mode: mode as SteerMode, ...(from ? { from } : {}) };
+}
+
+/**
+ * The user message the session receives. The header tells the agent the message arrived
+ * mid-task — and keeps the text from being read as a skill command.
+ */
+export function steerMessage(req: SteerRequest): string {
+  const by = req.from ? ` from ${req.from}` : "";
+  const header = req.mode === "steer"
+    ? `[Steering message${by} — received while you work on the current task; adjust course accordingly]`
+    : `[Follow-up message${by} — received while you worked on the current task; handle it before you finish]`;
+  return `${header}\n\n${req.text}`;
+}
+
+export interface SteerHandlers {
+  /** Where the task is on this knight. */
+  locate: (taskId: string) => SteerState;
+  /** Queue the message on the task's session. False if the prompt hasn't started yet. */
+  steer: (req: SteerRequest) => Promise<boolean>;
+}
+
+export function startSteerResponder(config: KnightConfig, handlers: SteerHandlers): void {
+  const nc = getConnection();
+  if (!nc) {
+    log.warn("Cannot start steer responder — NATS not connected");
+    return;
+  }
+
+  const subject = `${natsPrefix(config)}.steer.*`;
+  sub = nc.subscribe(subject);
+  log.info("Steer responder started", { subject });
+
+  (async () => {
+    for await (const msg of sub) {
+      const taskId = msg.subject.split(".").pop() ?? "";
+      try {
+        let state = handlers.locate(taskId);
+        if (state === "not_found") continue; // another knight's task
+
+        const req = parseSteerRequest(taskId, sc.decode(msg.data));
+        if (typeof req === "string") {
+          log.warn("Invalid steer request — ignoring", { taskId, error: req });
+          if (msg.reply) msg.respond(sc.encode(JSON.stringify({ task_id: taskId, knight: config.knightName, error: req })));
+          continue;
+        }
+
+        if (state === "running" && !(await handlers.steer(req))) state = "queued";
+        log.info("Steer request handled", { taskId, state, mode: req.mode, from: req.from, length: req.text.length });
+        if (msg.reply) {
+          msg.respond(sc.encode(JSON.stringify({
+            task_id: taskId,
+            knight: config.knightName,
+            accepted: state === "running",
+            state,
+            mode: req.mode,
+          })));
+        }
+      } catch (err) {
+        const errMsg = err instanceof Error ? err.message : String(err);
+        log.error("Steer handler error", { taskId, error: errMsg });
+        if (msg.reply) msg.respond(sc.encode(JSON.stringify({ task_id: taskId, knight: config.knightName, error: errMsg })));
+      }
+    }
+  })();
+}
@@ -0,0 +1,115 @@
+/**
+ * Structured JSON output mode.
+ *
+ * A task can carry an `output_schema` (JSON Schema) in its envelope. The agent is told to
+ * answer with a single JSON value matching it; after the prompt, the JSON is extracted
+ * from the deliverable and validated. On a mismatch the same session is re-prompted with
+ * the validation errors, at most OUTPUT_SCHEMA_MAX_REPAIRS times — it still has the full
+ * task context, so a repair is one cheap turn rather than a rerun. The parsed value is
+ * published as `data` next to the text `result`.
+ */
+import type { AgentSession } from "@earendil-works/pi-coding-agent";
+import { Errors } from "typebox/schema";
+import { log } from "./logger.js";
+import { getBestAssistantResult } from "./result-extraction.js";
+
+export type OutputSchema = Record<string, unknown>;
+
+export type StructuredCheck =
+  | { ok: true; data: unknown }
+  /** `fatal`: the schema itself is unusable, so re-prompting can't help. */
+  | { ok: false; errors: string[]; fatal?: boolean };
+
+/** Validation errors listed back to the agent (and published) are capped at this many. */
+const MAX_REPORTED_ERRORS = 20;
+
+/** Instructions appended to the task so the agent knows the expected output shape. */
+export function withOutputSchema(task: string, schema: OutputSchema): string {
+  return `${task}
+
+<output_format>
+Your final answer must be a single JSON value that validates against this JSON Schema:
+
+${JSON.stringify(schema, null, 2)}
+
+Put it in one \`\`\`json fenced block as the last thing in your final message. Do the work
+first; the JSON is the deliverable and is parsed by a machine.
+</output_format>`;
+}
+
+/**
+ * Pull a JSON value out of a deliverable: the last ```json (or bare ```) fenced block,
+ * else the whole text, else the outermost {...} or [...] span. `found` is false when none
+ * of those parse.
+ */
+export function extractJson(text: string): { found: true; value: unknown } | { found: false } {
+  const candidates: string[] = [];
+  const fences = [...text.matchAll(/```(?:json)?[ \t]*\n([\s\S]*?)```/g)];
+  for (let i = fences.length - 1; i >= 0; i--) candidates.push(fences[i][1]);
+  candidates.push(text);
+  for (const [open, close] of [["{", "}"], ["[", "]"]]) {
+    const start = text.indexOf(open);
+    const end = text.lastIndexOf(close);
+    if (start !== -1 && end > start) candidates.push(text.slice(start, end + 1));
+  }
+  for (const candidate of candidates) {
+    try {
+      return { found: true, value: JSON.parse(candidate.trim()) };
+    } catch {
+      // try the next candidate
+    }
+  }
+  return { found: false };
+}
+
+/** Extract and validate a deliverable's JSON against the schema. */
+export function checkStructuredOutput(text: string, schema: OutputSchema): StructuredCheck {
+  const extracted = extractJson(text);
+  if (!extracted.found) return { ok: false, errors: ["no parseable JSON value found in the answer"] };
+  let result: ReturnType<typeof Errors>;
+  try {
+    result = Errors(schema as Parameters<typeof Errors>[0], extracted.value);
+  } catch (err) {
+    // A schema the validator can't handle is the dispatcher's bug, not the agent's.
+    const message = err instanceof Error ? err.message : String(err);
+    return { ok: false, errors: [`output_schema could not be evaluated: ${message}`], fatal: true };
+  }
+  const [ok, errors] = result;
+  if (ok) return { ok: true, data: extracted.value };
+  return {
+    ok: false,
+    errors: errors.slice(0, MAX_REPORTED_ERRORS).map((e) => `${e.instancePath || "/"}: ${e.message}`),
+  };
+}
+
+/** Follow-up prompt asking the agent to fix its JSON. */
+export function repairPrompt(errors: string[]): string {
+  return `Your final answer did not validate against the required JSON Schema:
+
+${errors.map((e) => `- ${e}`).join("\n")}
+
+Reply with the corrected JSON value only, in a single \`\`\`json fenced block. Do not redo
+the work — fix the output.`;
+}
+
+/**
+ * Validate the session's latest deliverable, re-prompting with the errors until it
+ * validates, the repair budget runs out, or the task is aborted. Must be called while
+ * holding the session's prompt lock. Returns undefined when there is no deliverable at
+ * all — the caller's no-output failure handling applies.
+ */
+export async function enforceOutputSchema(
+  sess: AgentSession,
+  schema: OutputSchema,
+  maxRepairs: number,
+  signal?: AbortSignal,
+): Promise<(StructuredCheck & { repairs: number }) | undefined> {
+  for (let repairs = 0; ; repairs++) {
+    const deliverable = getBestAssistantResult(sess);
+    if (deliverable == null) return undefined;
+    const check = checkStructuredOutput(deliverable, schema);
+    if (check.ok || check.fatal || repairs >= maxRepairs || signal?.aborted) return { ...check, repairs };
+    log.info("Structured output invalid — re-prompting", { attempt: repairs + 1, maxRepairs, errors: check.errors.slice(0, 5) });
+    await sess.prompt(repairPrompt(check.errors));
+  }
+}
@@ -0,0 +1,108 @@
+/**
+ * Versioned task envelope schema.
+ *
+ * The contract between dispatchers and knights for messages on `<prefix>.tasks.>`. It is
+ * exported as `pi-knight/task-envelope` so dispatchers can build (and validate) against
+ * the same TypeBox schema the runtime checks — a TypeBox schema is plain JSON Schema, so
+ * `JSON.stringify(TaskEnvelopeSchema)` works for non-TypeScript dispatchers too.
+ *
+ * With TASK_ENVELOPE_STRICT=true, payloads that don't match are rejected with an
+ * `outcome: "rejected"` result listing the validation errors, instead of being run as a
+ * prompt. Without it the knight stays lenient (aliases like `description`/`message`,
+ * raw-text payloads) and only logs what strict mode would have rejected.
+ *
+ * Unknown properties are allowed, so older knights accept envelopes from newer dispatchers.
+ * Bump TASK_ENVELOPE_VERSION only for changes an older knight would misread.
+ */
+import { Type, type Static } from "typebox";
+import { Value } from "typebox/value";
+import { THINKING_LEVELS } from "./config.js";
+
+export const TASK_ENVELOPE_VERSION = 1;
+
+const Priority = Type.Union([
+  Type.Literal("low"),
+  Type.Literal("normal"),
+  Type.Literal("high"),
+  Type.Literal("critical"),
+  Type.Integer({ minimum: 0, maximum: 3 }),
+], { description: "Queue priority: a level name or its index 0–3 (default: the domain's, then normal)" });
+
+const NonEmpty = (description: string) => Type.String({ minLength: 1, description });
+
+export const TaskEnvelopeSchema = Type.Object({
+  version: Type.Optional(Type.Integer({
+    minimum: 1,
+    maximum: TASK_ENVELOPE_VERSION,
+    description: "Envelope version the dispatcher built against (default: 1)",
+  })),
+  task: NonEmpty("Task text — the prompt the knight runs"),
+  task_id: Type.Optional(NonEmpty("Task ID; results go to <prefix>.results.<task_id> (default: last subject token)")),
+  taskId: Type.Optional(NonEmpty("Alias of task_id")),
+  domain: Type.Optional(Type.String()),
+  from: Type.Optional(Type.String({ description: "Sender knight — messages from the knight itself are skipped" })),
+  dispatched_by: Type.Optional(Type.String()),
+  dispatchedBy: Type.Optional(Type.String({ description: "Alias of dispatched_by" })),
+  timestamp: Type.Optional(Type.String()),
+  priority: Type.Optional(Priority),
+  idempotency_key: Type.Optional(NonEmpty(
+    "Identifies the logical job — a repeat within the knight's TTL gets the earlier successful result instead of a new run",
+  )),
+  output_schema: Type.Optional(Type.Record(Type.String(), Type.Unknown(), {
+    description: "JSON Schema the answer must match; the validated JSON is published as `data`",
+  })),
+  run_id: Type.Optional(NonEmpty("Chain run ID — a new run starts a fresh session")),
+  runId: Type.Optional(NonEmpty("Alias of run_id")),
+  thread_id: Type.Optional(NonEmpty("Conversation thread — the task continues where the thread's last task left off")),
+  reply_to_task_id: Type.Optional(NonEmpty("Earlier task whose context this task continues (joins that task's thread)")),
+  metadata: Type.Optional(Type.Object({
+    // 0 is accepted as "unset": some dispatchers marshal an omitted int field as 0. (#30)
+    timeout_ms: Type.Optional(Type.Number({ minimum: 0, description: "Task timeout override in ms (0: the knight's default)" })),
+    timeoutMs: Type.Optional(Type.Number({ minimum: 0, description: "Alias of timeout_ms" })),
+    priority: Type.Optional(Priority),
+    // Like timeouts, 0 is "unset" (the knight's default budget applies).
+    max_cost_usd: Type.Optional(Type.Number({ minimum: 0, description: "Spend limit for this task in USD — past it the task stops as budget_exceeded" })),
+    max_tokens: Type.Optional(Type.Integer({ minimum: 0, description: "Token limit for this task, cached input included" })),
+    model: Type.Optional(NonEmpty("Model for this task (provider/model) — must be on the knight's KNIGHT_MODEL_ALLOWLIST")),
+    thinking: Type.Optional(Type.Union(THINKING_LEVELS.map((level) => Type.Literal(level)), {
+      description: "Thinking level for this task — must be on the knight's KNIGHT_THINKING_ALLOWLIST",
+    })),
+  })),
+}, { title: `Pi-Knight task envelope v${TASK_ENVELOPE_VERSION}` });
+
+export type TaskEnvelope = Static<typeof TaskEnvelopeSchema>;
+
+export type EnvelopeParse =
+  | { ok: true; envelope: TaskEnvelope }
+  | { ok: false; errors: string[] };
+
+/**
+ * Validate a decoded payload against the envelope schema. Errors read `<path>: <message>`;
+ * a union's per-branch errors are collapsed into one line for its path.
+ */
+export function validateTaskEnvelope(value: unknown): string[] {
+  const byPath = new Map<string, string[]>();
+  for (const err of Value.Errors(TaskEnvelopeSchema, value)) {
+    const path = err.instancePath || "/";
+    if (err.keyword === "anyOf") {
+      // Reported after the per-branch errors for the same path — replace them.
+      byPath.set(path, [`${path}: does not match any allowed type`]);
+    } else {
+      byPath.set(path, [...(byPath.get(path) ?? []), `${path}: ${err.message}`]);
+    }
+  }
+  return [...byPath.values()].flat();
+}
+
+/** Strictly parse a raw task payload: JSON, an object, and schema-valid. */
+export function parseTaskEnvelope(raw: string): EnvelopeParse {
+  let json: unknown;
+  try {
+    json = JSON.parse(raw);
+  } catch {
+    return { ok: false, errors: ["/: payload is not valid JSON"] };
+  }
+  const errors = validateTaskEnvelope(json);
+  if (errors.length > 0) return { ok: false, errors };
+  return { ok: true, envelope: json as TaskEnvelope };
+}
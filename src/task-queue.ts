@@ -0,0 +1,175 @@
+/**
+ * Overflow task queue with an append-only journal on the PVC.
+ *
+ * When the knight is at MAX_CONCURRENT_TASKS, new tasks wait here. In at-most-once mode
+ * their NATS messages are already acked, so the in-memory queue alone would lose them on
+ * SIGTERM or a crash. Every enqueue/dequeue is therefore appended to a JSONL journal, and
+ * the pending set is rebuilt from it on startup — before new messages are consumed, so a
+ * rolling update never silently drops queued work.
+ *
+ * at-least-once tasks (those carrying a delivery handle) are not journaled: their
+ * messages stay unacked in JetStream, which redelivers them — replaying them from disk
+ * as well would run them twice.
+ *
+ * Dequeue order is by priority, FIFO within a level. A waiting task ages up one level per
+ * TASK_PRIORITY_AGING_MS, so a steady stream of urgent work can delay low-priority tasks
+ * but never starve them.
+ */
+import { TASK_PRIORITIES, type KnightConfig, type TaskPriority } from "./config.js";
+import { Journal, parseJsonLines } from "./journal.js";
+import type { ParsedTask } from "./nats.js";
+import { log } from "./logger.js";
+
+/** A journaled task — everything but the (non-serializable) delivery handle. */
+type JournaledTask = Omit<ParsedTask, "delivery">;
+
+type JournalRecord =
+  | { op: "enqueue"; at: string; task: JournaledTask }
+  | { op: "dequeue"; at: string; taskId: string; reason: string };
+
+export interface QueuedTask {
+  task: ParsedTask;
+  enqueuedAt: number;
+}
+
+/**
+ * Fold journal lines into the still-pending tasks, in enqueue order. Malformed lines
+ * (e.g. a write torn by SIGKILL) are skipped rather than failing the whole replay.
+ */
+export function replayJournal(contents: string): QueuedTask[] {
+  const pending = new Map<string, QueuedTask>();
+  for (const rec of parseJsonLines(contents) as JournalRecord[]) {
+    if (rec?.op === "enqueue" && rec.task?.taskId) {
+      pending.set(rec.task.taskId, { task: rec.task, enqueuedAt: Date.parse(rec.at) || Date.now() });
+    } else if (rec?.op === "dequeue") {
+      pending.delete(rec.taskId);
+    }
+  }
+  return [...pending.values()];
+}
+
+/**
+ * Scheduling rank: the priority level's index plus one per `agingMs` waited.
+ * Unprioritized (pre-priority journal) tasks rank as "normal".
+ */
+export function effectiveRank(entry: QueuedTask, now: number, agingMs: number): number {
+  const base = TASK_PRIORITIES.indexOf(entry.task.priority ?? "normal");
+  const aged = agingMs > 0 ? Math.floor(Math.max(0, now - entry.enqueuedAt) / agingMs) : 0;
+  return base + aged;
+}
+
+export class TaskQueue {
+  private entries: QueuedTask[] = [];
+  private readonly journal: Journal<JournalRecord>;
+
+  /**
+   * @param journalPath JSONL journal on the PVC; empty disables persistence.
+   * @param agingMs Wait that raises a task one priority level; 0 disables aging.
+   */
+  constructor(
+    journalPath: string,
+    private readonly agingMs = 0,
+  ) {
+    this.journal = new Journal(journalPath, "Task queue journal");
+  }
+
+  get length(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Restore pending tasks from the journal and compact it down to just those.
+   * Returns the number of tasks restored.
+   */
+  restore(): number {
+    const contents = this.journal.read();
+    if (contents === undefined) return 0;
+    this.entries = replayJournal(contents);
+    this.compact();
+    return this.entries.length;
+  }
+
+  push(task: ParsedTask): void {
+    const entry = { task, enqueuedAt: Date.now() };
+    this.entries.push(entry);
+    if (!task.delivery) {
+      const { delivery: _delivery, ...journaled } = task;
+      this.journal.append({ op: "enqueue", at: new Date(entry.enqueuedAt).toISOString(), task: journaled });
+    }
+  }
+
+  /** Take the next task to run: highest effective priority, oldest first within it. */
+  shift(now = Date.now()): QueuedTask | undefined {
+    const entry = this.ordered(now)[0];
+    if (!entry) return undefined;
+    this.entries.splice(this.entries.indexOf(entry), 1);
+    this.settle(entry, "started");
+    return entry;
+  }
+
+  /** Queued tasks in the order they would be dequeued now. */
+  ordered(now = Date.now()): QueuedTask[] {
+    // entries is in enqueue order and Array.prototype.sort is stable, so equal ranks stay FIFO.
+    return [...this.entries].sort((a, b) => effectiveRank(b, now, this.agingMs) - effectiveRank(a, now, this.agingMs));
+  }
+
+  /** 0-based position of a queued task in dequeue order, or -1 if not queued. */
+  position(taskId: string, now = Date.now()): number {
+    return this.ordered(now).findIndex((e) => e.task.taskId === taskId);
+  }
+
+  /** Drop a queued task without running it. Returns it, or undefined if not queued. */
+  remove(taskId: string, reason: string): QueuedTask | undefined {
+    const idx = this.entries.findIndex((e) => e.task.taskId === taskId);
+    if (idx === -1) return undefined;
+    const [entry] = this.entries.splice(idx, 1);
+    this.settle(entry, reason);
+    return entry;
+  }
+
+  /** Read-only view in enqueue order, for shutdown handling. */
+  snapshot(): readonly QueuedTask[] {
+    return this.entries;
+  }
+
+  private settle(entry: QueuedTask, reason: string): void {
+    if (entry.task.delivery) return;
+    if (this.entries.every((e) => e.task.delivery)) {
+      // Nothing journaled is pending — truncate instead of appending, so the journal
+      // doesn't grow without bound on a long-lived pod.
+      this.compact();
+    } else {
+      this.journal.append({ op: "dequeue", at: new Date().toISOString(), taskId: entry.task.taskId, reason });
+    }
+  }
+
+  /** Rewrite the journal with only the pending journaled tasks. */
+  private compact(): void {
+    this.journal.rewrite(
+      this.entries
+        .filter((e) => !e.task.delivery)
+        .map((e) => ({ op: "enqueue" as const, at: new Date(e.enqueuedAt).toISOString(), task: e.task })),
+    );
+  }
+}
+
+let queue: TaskQueue | null = null;
+
+/** Create the knight's task queue and restore any tasks journaled by a previous pod. */
+export function initTaskQueue(config: KnightConfig): TaskQueue {
+  queue = new TaskQueue(config.taskQueueJournalPath, config.taskPriorityAgingMs);
+  const restored = queue.restore();
+  if (restored > 0) {
+    log.info("Restored queued tasks from journal", {
+      count: restored,
+      taskIds: queue.ordered().map((e) => e.task.taskId),
+      path: config.taskQueueJournalPath,
+    });
+  }
+  return queue;
+}
+
+/** The knight's task queue (or null before startup). Used by introspect. */
+export function getTaskQueue(): TaskQueue | null {
+  return queue;
+}
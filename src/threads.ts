@@ -0,0 +1,143 @@
+/**
+ * Conversation threads: follow-up tasks that resume a prior task's context.
+ *
+ * A task may carry a `thread_id` (continue the named conversation where its last task
+ * left off) or a `reply_to_task_id` (continue from right after that task — branching if
+ * the conversation has moved on since). Either way the task runs on the thread's own
+ * session, so "now expand section 3" works even after other runs have used the knight.
+ *
+ * Every task that runs records where it left its session: the session file on the PVC
+ * and the leaf entry of the session tree. Those records live here — in memory and in an
+ * append-only JSONL file (so follow-ups survive a restart), bounded by THREAD_MAX_ENTRIES.
+ */
+import type { KnightConfig } from "./config.js";
+import { Journal, parseJsonLines } from "./journal.js";
+import { log } from "./logger.js";
+import type { ParsedTask } from "./nats.js";
+
+/** Where a task left its session. */
+export interface SessionRef {
+  sessionFile: string;
+  leafId: string;
+}
+
+export interface ThreadEntry extends SessionRef {
+  taskId: string;
+  /** Thread the task belonged to, if any. */
+  threadId?: string;
+  storedAt: number;
+}
+
+/**
+ * What a threaded task resumes. Without `from` the thread is new and starts a fresh
+ * session; with it the session is reopened at that point of the tree.
+ */
+export interface ThreadTarget {
+  threadId: string;
+  from?: SessionRef;
+}
+
+/** Fold store lines into entries, oldest first. Later lines for a task win. */
+export function replayThreads(contents: string): ThreadEntry[] {
+  const entries = new Map<string, ThreadEntry>();
+  for (const rec of parseJsonLines(contents) as ThreadEntry[]) {
+    if (typeof rec?.taskId !== "string" || typeof rec.sessionFile !== "string" || typeof rec.leafId !== "string") continue;
+    entries.delete(rec.taskId); // re-insert so Map order follows storedAt
+    entries.set(rec.taskId, rec);
+  }
+  return [...entries.values()];
+}
+
+export class ThreadStore {
+  // Map insertion order is storage order, so the first task is always the oldest.
+  private entries = new Map<string, ThreadEntry>();
+  /** Latest task of each thread. */
+  private heads = new Map<string, string>();
+  private readonly journal: Journal<ThreadEntry>;
+
+  /** @param path JSONL file on the PVC; empty keeps the store in memory only. */
+  constructor(
+    path: string,
+    private readonly maxEntries: number,
+  ) {
+    this.journal = new Journal(path, "Thread store", maxEntries);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /** Load entries from disk and compact the file. Returns the number loaded. */
+  load(): number {
+    const contents = this.journal.read();
+    if (contents === undefined) return 0;
+    const live = replayThreads(contents).slice(-this.maxEntries);
+    this.entries = new Map();
+    this.heads = new Map();
+    for (const entry of live) this.index(entry);
+    this.journal.rewrite(this.entries.values());
+    return this.entries.size;
+  }
+
+  /** Where a task left its session, if known. */
+  get(taskId: string): ThreadEntry | undefined {
+    return this.entries.get(taskId);
+  }
+
+  /** The most recent task of a thread, if any. */
+  latest(threadId: string): ThreadEntry | undefined {
+    const taskId = this.heads.get(threadId);
+    return taskId ? this.entries.get(taskId) : undefined;
+  }
+
+  record(taskId: string, threadId: string | undefined, ref: SessionRef, now = Date.now()): void {
+    const entry: ThreadEntry = { taskId, ...(threadId ? { threadId } : {}), ...ref, storedAt: now };
+    this.index(entry);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.values().next().value!;
+      this.entries.delete(oldest.taskId);
+      if (oldest.threadId && this.heads.get(oldest.threadId) === oldest.taskId) this.heads.delete(oldest.threadId);
+    }
+    this.journal.append(entry, () => this.entries.values());
+  }
+
+  /**
+   * Resolve what a task resumes, or undefined for an unthreaded task. A reply joins the
+   * replied-to task's thread (or starts one named after it); an unknown reply target or
+   * a new thread starts from a fresh session.
+   */
+  resolve(task: Pick<ParsedTask, "taskId" | "threadId" | "replyToTaskId">): ThreadTarget | undefined {
+    if (task.replyToTaskId) {
+      const replied = this.get(task.replyToTaskId);
+      if (!replied) {
+        log.warn("reply_to_task_id unknown — starting a fresh thread", { taskId: task.taskId, replyToTaskId: task.replyToTaskId });
+      }
+      return {
+        threadId: task.threadId ?? replied?.threadId ?? task.replyToTaskId,
+        ...(replied ? { from: { sessionFile: replied.sessionFile, leafId: replied.leafId } } : {}),
+      };
+    }
+    if (task.threadId) {
+      const latest = this.latest(task.threadId);
+      return {
+        threadId: task.threadId,
+        ...(latest ? { from: { sessionFile: latest.sessionFile, leafId: latest.leafId } } : {}),
+      };
+    }
+    return undefined;
+  }
+
+  private index(entry: ThreadEntry): void {
+    this.entries.delete(entry.taskId);
+    this.entries.set(entry.taskId, entry);
+    if (entry.threadId) this.heads.set(entry.threadId, entry.taskId);
+  }
+}
+
+/** Create the knight's thread store and load what a previous pod recorded. */
+export function initThreadStore(config: KnightConfig): ThreadStore {
+  const store = new ThreadStore(config.threadStorePath, config.threadMaxEntries);
+  const loaded = store.load();
+  if (loaded > 0) log.info("Thread store loaded", { entries: loaded, path: config.threadStorePath });
+  return store;
+}
@@ -0,0 +1,280 @@
+/**
+ * Declarative tool policy, evaluated in `beforeToolCall`.
+ *
+ * Which tool calls a knight may make used to be a compiled-in list of bash regexes, so
+ * tightening or relaxing it for one knight meant rebuilding the image. The policy is now a
+ * YAML (or JSON) file, TOOL_POLICY (default /config/tool-policy.yaml, from the ConfigMap):
+ *
+ *   default: allow                  # when no rule matches (allow | deny | ask)
+ *   rules:
+ *     - id: no-force-push
+ *       tool: bash                  # a name, a list of names, or "*"
+ *       action: deny
+ *       match:                      # every argument matcher must match
+ *         command: '\bgit\s+push\b.*--force\b'              # a string is a regex
+ *       reason: Force push — push new commits instead
+ *     - tool: [write, edit]
+ *       action: deny
+ *       match:
+ *         path: { glob: ["/etc/**", "/config/**"] }         # resolved against /data
+ *     - tool: web_fetch
+ *       action: ask
+ *       match:
+ *         url: { host: ["*.internal", "169.254.169.254"] }  # hosts of URLs in the value
+ *   knights:
+ *     patsy:                        # checked before the shared rules, for this knight only
+ *       rules: [...]
+ *
+ * The first matching rule decides; a rule's `reason` is the explanation the agent gets
+ * when its call is refused. The built-in rules (the former BLOCKED_BASH_PATTERNS) are
+ * checked after the file's unless it sets `builtin: false`, so a file `allow` rule can
+ * make an exception to them. A policy that doesn't validate stops the knight at startup —
+ * a typo must not quietly turn the guard rails off.
+ */
+import { existsSync, readFileSync } from "node:fs";
+import { posix } from "node:path";
+import { Type, type Static } from "typebox";
+import { Value } from "typebox/value";
+import { parse as parseYaml } from "yaml";
+import type { KnightConfig } from "./config.js";
+import { log } from "./logger.js";
+
+export const POLICY_ACTIONS = ["allow", "deny", "ask"] as const;
+export type PolicyAction = (typeof POLICY_ACTIONS)[number];
+
+/** Relative paths in tool arguments are relative to the knight's workspace. */
+const WORKSPACE = "/data";
+
+const Action = Type.Union([Type.Literal("allow"), Type.Literal("deny"), Type.Literal("ask")]);
+const OneOrMore = Type.Union([Type.String({ minLength: 1 }), Type.Array(Type.String({ minLength: 1 }), { minItems: 1 })]);
+
+const MatcherSchema = Type.Union([
+  Type.String({ minLength: 1 }),
+  Type.Object({
+    regex: Type.Optional(Type.String({ minLength: 1 })),
+    glob: Type.Optional(OneOrMore),
+    host: Type.Optional(OneOrMore),
+  }, { additionalProperties: false, minProperties: 1 }),
+]);
+
+const RuleSchema = Type.Object({
+  id: Type.Optional(Type.String({ minLength: 1 })),
+  tool: OneOrMore,
+  action: Action,
+  match: Type.Optional(Type.Record(Type.String(), MatcherSchema)),
+  reason: Type.Optional(Type.String()),
+}, { additionalProperties: false });
+
+const RuleSetSchema = Type.Object({
+  default: Type.Optional(Action),
+  rules: Type.Optional(Type.Array(RuleSchema)),
+}, { additionalProperties: false });
+
+export const ToolPolicySchema = Type.Object({
+  version: Type.Optional(Type.Literal(1)),
+  default: Type.Optional(Action),
+  builtin: Type.Optional(Type.Boolean()),
+  rules: Type.Optional(Type.Array(RuleSchema)),
+  knights: Type.Optional(Type.Record(Type.String(), RuleSetSchema)),
+}, { additionalProperties: false });
+
+export type PolicyRule = Static<typeof RuleSchema>;
+export type PolicyFile = Static<typeof ToolPolicySchema>;
+
+/** Rules that apply unless a policy file sets `builtin: false`. */
+export const BUILTIN_RULES: PolicyRule[] = [
+  { id: "rm-rf-root", tool: "bash", action: "deny", match: { command: "\\brm\\s+-rf\\s+\\/(?!\\w)" }, reason: "Recursive delete at root level" },
+  { id: "force-push", tool: "bash", action: "deny", match: { command: "\\bgit\\s+push\\s+.*--force(?!\\s*-with-lease)" }, reason: "Force push without lease (use --force-with-lease or new commits)" },
+  { id: "force-push-short", tool: "bash", action: "deny", match: { command: "\\bgit\\s+push\\s+.*-f\\b" }, reason: "Force push (use new commits instead)" },
+  { id: "chmod-777", tool: "bash", action: "deny", match: { command: "\\bchmod\\s+777\\b" }, reason: "World-writable permissions" },
+  { id: "curl-pipe-shell", tool: "bash", action: "deny", match: { command: "\\bcurl\\b.*\\|\\s*(?:ba)?sh" }, reason: "Piping remote script to shell" },
+  { id: "dd-device", tool: "bash", action: "deny", match: { command: "\\bdd\\s+.*of=\\/dev\\/" }, reason: "Direct device write" },
+  { id: "mkfs", tool: "bash", action: "deny", match: { command: "\\bmkfs\\b" }, reason: "Filesystem format" },
+];
+
+export interface PolicyDecision {
+  action: PolicyAction;
+  /** The matching rule's id, or "default" when no rule matched. */
+  rule: string;
+  reason?: string;
+}
+
+interface CompiledRule {
+  id: string;
+  /** Lower-cased tool names; null for "*". */
+  tools: Set<string> | null;
+  action: PolicyAction;
+  reason?: string;
+  matchers: Array<{ arg: string; test: (value: string) => boolean }>;
+}
+
+export class ToolPolicy {
+  constructor(
+    /** Where the policy came from — the file path, or "built-in". */
+    readonly source: string,
+    private readonly rules: CompiledRule[],
+    private readonly defaultAction: PolicyAction,
+  ) {}
+
+  get ruleCount(): number {
+    return this.rules.length;
+  }
+
+  /** The decision for one tool call: the first matching rule's, else the default. */
+  evaluate(tool: string, args: unknown): PolicyDecision {
+    const name = tool.toLowerCase();
+    const record = args && typeof args === "object" ? (args as Record<string, unknown>) : {};
+    for (const rule of this.rules) {
+      if (rule.tools && !rule.tools.has(name)) continue;
+      const matched = rule.matchers.every(({ arg, test }) => {
+        const value = record[arg];
+        if (value === undefined || value === null) return false;
+        return test(typeof value === "string" ? value : JSON.stringify(value));
+      });
+      if (matched) return { action: rule.action, rule: rule.id, ...(rule.reason ? { reason: rule.reason } : {}) };
+    }
+    return { action: this.defaultAction, rule: "default" };
+  }
+}
+
+/**
+ * Validate a decoded policy file and compile it for `knight`. Throws with every problem
+ * found (schema errors, bad regexes), one per line.
+ */
+export function compilePolicy(file: unknown, knight: string, source: string): ToolPolicy {
+  const errors = [...Value.Errors(ToolPolicySchema, file)].map((err) => `${err.instancePath || "/"}: ${err.message}`);
+  if (errors.length > 0) throw new Error(`Invalid tool policy ${source}:\n${[...new Set(errors)].join("\n")}`);
+
+  const policy = file as PolicyFile;
+  const own = policy.knights?.[knight];
+  const sets: Array<[string, PolicyRule[]]> = [
+    [`knights.${knight}.rules`, own?.rules ?? []],
+    ["rules", policy.rules ?? []],
+    ["builtin", policy.builtin === false ? [] : BUILTIN_RULES],
+  ];
+
+  const rules: CompiledRule[] = [];
+  const problems: string[] = [];
+  for (const [where, set] of sets) {
+    set.forEach((rule, i) => {
+      try {
+        rules.push(compileRule(rule, rule.id ?? `${where}[${i}]`));
+      } catch (err) {
+        problems.push(`${where}[${i}]: ${err instanceof Error ? err.message : String(err)}`);
+      }
+    });
+  }
+  if (problems.length > 0) throw new Error(`Invalid tool policy ${source}:\n${problems.join("\n")}`);
+  return new ToolPolicy(source, rules, own?.default ?? policy.default ?? "allow");
+}
+
+/** The policy from `config.toolPolicyPath`, or the built-in rules alone if there is no file. */
+export function loadToolPolicy(config: KnightConfig): ToolPolicy {
+  const path = config.toolPolicyPath;
+  if (!path || !existsSync(path)) return compilePolicy({}, config.knightName, "built-in");
+  let file: unknown;
+  try {
+    file = parseYaml(readFileSync(path, "utf-8")) ?? {};
+  } catch (err) {
+    throw new Error(`Invalid tool policy ${path}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  return compilePolicy(file, config.knightName, path);
+}
+
+// ─── Module state ──────────────────────────────────────────────────
+
+let policy: ToolPolicy | null = null;
+
+/** Load and validate the policy (startup). Throws if it is invalid. */
+export function initToolPolicy(config: KnightConfig): ToolPolicy {
+  policy = loadToolPolicy(config);
+  log.info("Tool policy loaded", { source: policy.source, rules: policy.ruleCount });
+  return policy;
+}
+
+/** The loaded policy — the built-in rules until `initToolPolicy` has run. */
+export function getToolPolicy(): ToolPolicy {
+  policy ??= compilePolicy({}, "", "built-in");
+  return policy;
+}
+
+// ─── Helpers ───────────────────────────────────────────────────────
+
+function compileRule(rule: PolicyRule, id: string): CompiledRule {
+  const tools = list(rule.tool).map((t) => t.toLowerCase());
+  const matchers = Object.entries(rule.match ?? {}).map(([arg, m]) => {
+    const spec = typeof m === "string" ? { regex: m } : m;
+    const tests: Array<(value: string) => boolean> = [];
+    if (spec.regex !== undefined) {
+      const re = compileRegex(spec.regex, `match.${arg}.regex`);
+      tests.push((value) => re.test(value));
+    }
+    if (spec.glob !== undefined) {
+      const globs = list(spec.glob).map((g) => globToRegExp(posix.resolve(WORKSPACE, g)));
+      tests.push((value) => {
+        const path = posix.resolve(WORKSPACE, value);
+        return globs.some((g) => g.test(path));
+      });
+    }
+    if (spec.host !== undefined) {
+      const hosts = list(spec.host).map((h) => globToRegExp(h.toLowerCase(), false));
+      tests.push((value) => urlHosts(value).some((host) => hosts.some((h) => h.test(host))));
+    }
+    return { arg, test: (value: string) => tests.every((t) => t(value)) };
+  });
+  return { id, tools: tools.includes("*") ? null : new Set(tools), action: rule.action, reason: rule.reason, matchers };
+}
+
+function compileRegex(source: string, where: string): RegExp {
+  try {
+    return new RegExp(source);
+  } catch (err) {
+    throw new Error(`${where}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+function list(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * `*` and `?` stop at `/`; `**` crosses it, and a `**` path segment may match no
+ * directory at all. A host glob has no separator: `*.example.com` covers `a.b.example.com`.
+ */
+export function globToRegExp(glob: string, path = true): RegExp {
+  const one = path ? "[^/]" : ".";
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      i++;
+      if (glob[i + 1] === "/") {
+        re += "(?:.*/)?";
+        i++;
+      } else {
+        re += ".*";
+      }
+    } else if (c === "*") {
+      re += `${one}*`;
+    } else if (c === "?") {
+      re += one;
+    } else {
+      re += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+/** Hosts of the URLs in a value, or of the value itself when it is a bare host. */
+function urlHosts(value: string): string[] {
+  const urls = value.match(/\bhttps?:\/\/[^\s'"<>`]+/gi) ?? (/^[^\s/]+(?:[/:]|$)/.test(value) ? [`http://${value}`] : []);
+  const hosts: string[] = [];
+  for (const url of urls) {
+    try {
+      hosts.push(new URL(url).hostname.toLowerCase().replace(/^\[|\]$/g, ""));
+    } catch {
+      // Not a URL after all.
+    }
+  }
+  return hosts;
+}
@@ -12,8 +12,10 @@
 import { Type } from "typebox";
 import { defineTool } from "@earendil-works/pi-coding-agent";
 import type { AgentToolResult } from "@earendil-works/pi-agent-core";
-import { getJetStream, getConnection, StringCodec } from "../nats.js";
+import { fetchResultRef, getJetStream, getConnection, StringCodec, type ResultRef } from "../nats.js";
 import { log } from "../logger.js";
+import { getRedactor } from "../redact.js";
+import { TASK_ENVELOPE_VERSION } from "../task-envelope.js";
 
 const sc = StringCodec();
 
@@ -37,6 +39,12 @@ const RequestParams = Type.Object({
   domain: Type.String({ description: "Task domain matching the target knight's NATS filter (e.g. 'security', 'operator', 'frontend')" }),
   task: Type.String({ description: "Clear, self-contained task description — the target knight has NO context about your current work" }),
   timeout_ms: Type.Optional(Type.Number({ description: "Timeout in ms (default: 600000 = 10 min). Increase for complex tasks." })),
+  idempotency_key: Type.Optional(Type.String({
+    description: "Stable key for this logical request. Re-sending the same key returns the target's earlier successful answer instead of running it again.",
+  })),
+  thread_id: Type.Optional(Type.String({
+    description: "Conversation thread with the target knight. Requests with the same thread_id continue where the last one left off, so a follow-up can say \"now expand section 3\".",
+  })),
 });
 
 // --- Helpers ---
@@ -80,7 +88,9 @@ export const natsPublishTool = defineTool({
     }
 
     try {
-      await js.publish(params.subject, sc.encode(params.message));
+      const { text: message, redactions } = getRedactor().redact(params.message);
+      if (redactions > 0) log.warn("Redacted secrets from nats_publish message", { subject: params.subject, redactions });
+      await js.publish(params.subject, sc.encode(message));
       log.info("nats_publish tool", { subject: params.subject, size: params.message.length });
       return textResult(`Published to ${params.subject} (${params.message.length} bytes)`);
     } catch (err: unknown) {
@@ -170,18 +180,33 @@ export const natsRequestTool = defineTool({
 
     onUpdate?.(textResult(`Dispatching to ${params.knight} (${params.domain})…`));
 
+    // Relay the target's live progress (tool calls, compaction, retries) as tool updates,
+    // so a long request isn't a blind wait. Best-effort: the result alone is authoritative.
+    const progressSub = onUpdate ? nc.subscribe(`${_natsPrefix}.progress.${taskId}`) : null;
+    if (progressSub) {
+      (async () => {
+        for await (const msg of progressSub) {
+          const line = describeProgress(params.knight, sc.decode(msg.data));
+          if (line) onUpdate?.(textResult(line));
+        }
+      })().catch(() => {});
+    }
+
     try {
       // Subscribe to result subject BEFORE publishing the task
       const sub = nc.subscribe(resultSubject, { max: 1, timeout: timeoutMs });
 
       // Publish the task
       const payload = JSON.stringify({
+        version: TASK_ENVELOPE_VERSION,
         task: params.task,
         task_id: taskId,
         domain: params.domain,
         from: _knightName.toLowerCase(),
         dispatched_by: _knightName,
         timestamp: new Date().toISOString(),
+        ...(params.idempotency_key ? { idempotency_key: params.idempotency_key } : {}),
+        ...(params.thread_id ? { thread_id: params.thread_id } : {}),
         metadata: { timeout_ms: timeoutMs, table_prefix: _natsPrefix },
       });
       await js.publish(taskSubject, sc.encode(payload));
@@ -194,7 +219,7 @@ export const natsRequestTool = defineTool({
         try {
           const result = JSON.parse(raw);
           const success = result.success ?? true;
-          const text = result.result ?? raw;
+          const text = await responseText(taskId, result, raw);
           const cost = result.cost ?? 0;
           const duration = result.duration_ms ?? 0;
 
@@ -226,10 +251,78 @@ export const natsRequestTool = defineTool({
       }
       log.error("nats_request failed", { taskId, error: msg });
       return textResult(`Error requesting from ${params.knight}: ${msg}`);
+    } finally {
+      progressSub?.unsubscribe();
     }
   },
 });
 
+/**
+ * The text of a knight's result message, with the structured output (if any) appended as
+ * JSON. Large results arrive as object-store references — the answer text as `result_ref`,
+ * the structured output as `data_ref` — and are fetched inline; a fetch that fails leaves
+ * the preview and a note saying why.
+ */
+export async function responseText(
+  taskId: string,
+  result: Record<string, any>,
+  raw: string,
+  fetchRef: (ref: ResultRef) => Promise<string> = fetchResultRef,
+): Promise<string> {
+  const fetchFailed = (what: string, ref: ResultRef, err: unknown) => {
+    log.warn(`nats_request: could not fetch offloaded ${what}`, { taskId, ref, error: String(err) });
+    return `(${what === "result" ? "Full result" : "Structured output"} could not be fetched: ${err instanceof Error ? err.message : String(err)})`;
+  };
+
+  let text = result.result ?? raw;
+  if (result.result_ref) {
+    const ref = result.result_ref as ResultRef;
+    try {
+      text = await fetchRef(ref);
+    } catch (err) {
+      text = `${text}\n\n${fetchFailed("result", ref, err)}`;
+    }
+  }
+
+  let data: string | undefined = result.data !== undefined ? JSON.stringify(result.data, null, 2) : undefined;
+  if (result.data_ref) {
+    const ref = result.data_ref as ResultRef;
+    try {
+      data = JSON.stringify(JSON.parse(await fetchRef(ref)), null, 2);
+    } catch (err) {
+      return `${text}\n\n${fetchFailed("structured output", ref, err)}`;
+    }
+  }
+  return data === undefined ? text : `${text}\n\nStructured output:\n\`\`\`json\n${data}\n\`\`\``;
+}
+
+/**
+ * One-line summary of a progress event for nats_request updates. Text deltas and tool
+ * completions are too chatty to relay — returns null for those (and for bad payloads).
+ */
+export function describeProgress(knight: string, data: string): string | null {
+  let event: Record<string, unknown>;
+  try {
+    event = JSON.parse(data);
+  } catch {
+    return null;
+  }
+  switch (event.type) {
+    case "started":
+      return `${knight} started the task…`;
+    case "tool_start":
+      return `${knight} is running ${String(event.tool)}…`;
+    case "compaction_start":
+      return `${knight} is compacting its context…`;
+    case "retry":
+      return `${knight} is retrying its LLM call (attempt ${String(event.attempt)}/${String(event.maxAttempts)})…`;
+    case "steer":
+      return `${knight} received a ${event.mode === "follow_up" ? "follow-up" : "steering"} message${event.from ? ` from ${String(event.from)}` : ""}`;
+    default:
+      return null;
+  }
+}
+
 /**
  * All NATS tools for registration with Pi SDK.
  */
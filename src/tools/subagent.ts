@@ -12,6 +12,8 @@ import type { ThinkingLevel } from "@earendil-works/pi-agent-core";
 import { resolveModel, createTrustedSettingsManager } from "../model.js";
 import { log } from "../logger.js";
 import * as metrics from "../metrics.js";
+import { getSpendLedger } from "../spend-ledger.js";
+import type { BudgetUsage } from "../budget.js";
 
 const SpawnParams = Type.Object({
   task: Type.String({ description: "Task for the sub-agent to execute" }),
@@ -44,6 +46,19 @@ export function setParentKnight(name: string): void {
   parentKnight = name;
 }
 
+/** The task a spawn runs for: its ID, and the sub-agent spend counted toward its budget */
+export interface SubagentParentTask {
+  taskId: string;
+  usage: BudgetUsage;
+}
+
+/** Finds the task running on the calling session — set by knight.ts, which tracks them */
+let parentTask: (sessionId: string) => SubagentParentTask | undefined = () => undefined;
+
+export function setParentTaskResolver(resolve: (sessionId: string) => SubagentParentTask | undefined): void {
+  parentTask = resolve;
+}
+
 export const spawnSubagentTool = defineTool({
   name: "spawn_subagent",
   label: "Spawn Sub-Agent",
@@ -56,13 +71,15 @@ export const spawnSubagentTool = defineTool({
     "Sub-agents have no memory of your session — provide all necessary context in the task description",
   ],
   parameters: SpawnParams,
-  async execute(_toolCallId, params, signal, onUpdate, _ctx) {
+  async execute(_toolCallId, params, signal, onUpdate, ctx) {
+    const task = parentTask(ctx.sessionManager.getSessionId());
     const modelStr = params.model ?? parentModel;
     const thinkingLevel = (params.thinking ?? "off") as ThinkingLevel;
 
     const systemPrompt = params.system_prompt ?? "You are a focused sub-agent. Complete the task thoroughly and concisely.";
 
     log.info("Spawning sub-agent", {
+      ...(task ? { taskId: task.taskId } : {}),
       model: modelStr,
       thinking: thinkingLevel,
       taskLength: params.task.length,
@@ -118,6 +135,13 @@ export const spawnSubagentTool = defineTool({
       metrics.tokensTotal.labels(parentKnight, "input").inc(finite(stats.tokens.input));
       metrics.tokensTotal.labels(parentKnight, "output").inc(finite(stats.tokens.output));
       metrics.tokensTotal.labels(parentKnight, "cached").inc(finite(stats.tokens.cacheRead));
+      // The parent session's stats don't include this spawn, so it goes on the ledger itself,
+      // and toward the calling task's budget.
+      getSpendLedger()?.record("subagent", modelStr, finite(stats.cost), task?.taskId);
+      if (task) {
+        task.usage.cost += finite(stats.cost);
+        task.usage.tokens += finite(stats.tokens.input) + finite(stats.tokens.output) + finite(stats.tokens.cacheRead);
+      }
 
       log.info("Sub-agent completed", {
         durationMs,
@@ -0,0 +1,28 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { parseApprovalReply, requestApproval } from "../src/approvals.ts";
+
+test("a JSON reply carries the decision, reason and approver", () => {
+  assert.deepEqual(parseApprovalReply('{"approved": false, "reason": "Not during the freeze", "by": "tim"}'), {
+    approved: false,
+    reason: "Not during the freeze",
+    by: "tim",
+  });
+  assert.deepEqual(parseApprovalReply('{"decision": "Approve"}'), { approved: true });
+});
+
+test("a plain-text reply is a decision word", () => {
+  assert.deepEqual(parseApprovalReply(" yes "), { approved: true });
+  assert.deepEqual(parseApprovalReply("deny"), { approved: false });
+});
+
+test("a reply that decides nothing is refused", () => {
+  assert.equal(parseApprovalReply("maybe later"), "reply is neither an approval nor a denial");
+  assert.equal(parseApprovalReply('{"approved": "true"}'), "reply is neither an approval nor a denial");
+});
+
+test("without a NATS connection the call is not approved", async () => {
+  const decision = await requestApproval({ id: "call-1", tool: "bash", args: { command: "git push" }, rule: "git-push" });
+  assert.equal(decision.approved, false);
+  assert.equal(decision.outcome, "unavailable");
+});
@@ -0,0 +1,79 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AUDIT_GENESIS, AuditLog, verifyAuditChain, type AuditEntry } from "../src/audit.ts";
+
+const entry = (overrides: Partial<AuditEntry> = {}): AuditEntry => ({
+  event: "before",
+  taskId: "sec-123",
+  runId: "run-1",
+  tool: "bash",
+  toolCallId: "call-1",
+  args: { command: "ls /data" },
+  outcome: "allowed",
+  ...overrides,
+});
+
+const tmpLog = () => join(mkdtempSync(join(tmpdir(), "audit-")), "tool-audit.jsonl");
+const lines = (path: string) => readFileSync(path, "utf-8").split("\n").filter(Boolean);
+
+test("records chain each to the one before", () => {
+  const path = tmpLog();
+  const published: number[] = [];
+  const audit = new AuditLog("galahad", path, 0, 0, (r) => published.push(r.seq));
+  const first = audit.record(entry());
+  const second = audit.record(entry({ event: "after", outcome: "error", durationMs: 42 }));
+  assert.equal(first.prev, AUDIT_GENESIS);
+  assert.equal(second.prev, first.hash);
+  assert.equal(second.duration_ms, 42);
+  assert.equal(first.task_id, "sec-123");
+  assert.deepEqual(published, [1, 2]);
+  assert.deepEqual(verifyAuditChain(lines(path)), { ok: true, records: 2, last: second.hash });
+});
+
+test("an edited, dropped or reordered record breaks the chain", () => {
+  const path = tmpLog();
+  const audit = new AuditLog("galahad", path, 0, 0);
+  for (let i = 0; i < 3; i++) audit.record(entry({ toolCallId: `call-${i}` }));
+  const records = lines(path);
+
+  const edited = [...records];
+  edited[1] = edited[1].replace('"outcome":"allowed"', '"outcome":"blocked"');
+  assert.deepEqual(verifyAuditChain(edited), { ok: false, line: 2, problem: "record 2 was modified" });
+  assert.deepEqual(verifyAuditChain([records[0], records[2]]), { ok: false, line: 2, problem: "record 3 does not follow the previous record" });
+  assert.equal(verifyAuditChain([records[1], records[0]]).ok, false);
+});
+
+test("long arguments are cut, but hashed in full", () => {
+  const audit = new AuditLog("galahad", "", 0, 0);
+  const record = audit.record(entry({ tool: "write", args: { path: "a.md", content: "x".repeat(2000) } }));
+  assert.ok(record.args.length < 510 && record.args.endsWith("…"));
+  assert.match(record.args_sha256, /^[0-9a-f]{64}$/);
+});
+
+test("rotation and restarts keep the chain going", () => {
+  const path = tmpLog();
+  const audit = new AuditLog("galahad", path, 1500, 2);
+  for (let i = 0; i < 6; i++) audit.record(entry({ toolCallId: `call-${i}` }));
+  assert.ok(existsSync(`${path}.1`));
+
+  const resumed = new AuditLog("galahad", path, 1500, 2);
+  resumed.load();
+  resumed.record(entry({ toolCallId: "after-restart" }));
+
+  const files = [`${path}.2`, `${path}.1`, path].filter(existsSync);
+  const all = files.flatMap(lines);
+  const check = verifyAuditChain(all, JSON.parse(all[0]).prev);
+  assert.equal(check.ok, true);
+  assert.equal(JSON.parse(all[all.length - 1]).seq, 7);
+});
+
+test("an unreadable last record restarts the chain", () => {
+  const path = tmpLog();
+  writeFileSync(path, '{"seq": 4, "hash": "abc"\n');
+  const audit = new AuditLog("galahad", path, 0, 0);
+  audit.load();
+  assert.equal(audit.record(entry()).prev, AUDIT_GENESIS);
+});
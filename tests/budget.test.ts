@@ -0,0 +1,78 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { budgetExceeded, resolveBudget, usageSince, watchBudget } from "../src/budget.ts";
+import type { KnightConfig } from "../src/config.ts";
+
+const config = (taskMaxCostUsd = 0, taskMaxTokens = 0) => ({ taskMaxCostUsd, taskMaxTokens }) as KnightConfig;
+
+function stats(cost: number, input: number, output = 0, cacheRead = 0) {
+  return { cost, toolCalls: 0, tokens: { input, output, cacheRead, cacheWrite: 0, total: input + output + cacheRead } } as any;
+}
+
+test("task limits win over the knight's defaults; no limits means no budget", () => {
+  assert.deepEqual(resolveBudget(config(1, 50_000), { maxCostUsd: 0.25 }), { maxCostUsd: 0.25, maxTokens: 50_000 });
+  assert.deepEqual(resolveBudget(config(2), {}), { maxCostUsd: 2 });
+  assert.equal(resolveBudget(config(), {}), undefined);
+});
+
+test("budgetExceeded names the limit that was reached", () => {
+  assert.equal(budgetExceeded({ maxCostUsd: 1 }, { cost: 0.5, tokens: 1e9 }), undefined);
+  assert.match(budgetExceeded({ maxCostUsd: 1 }, { cost: 1.2, tokens: 0 })!, /cost \$1\.2000 reached the task budget of \$1/);
+  assert.match(budgetExceeded({ maxTokens: 1000 }, { cost: 0, tokens: 1000 })!, /1000 tokens reached/);
+});
+
+test("usageSince counts cached input and never goes negative", () => {
+  assert.deepEqual(usageSince(stats(1, 100), stats(1.5, 150, 20, 1000)), { cost: 0.5, tokens: 1070 });
+  assert.deepEqual(usageSince(stats(2, 100), stats(1, 100)), { cost: 0, tokens: 0 });
+});
+
+test("watchBudget aborts the session once an assistant message crosses the budget", () => {
+  let listener: ((event: any) => void) | undefined;
+  let current = stats(0, 0);
+  let aborts = 0;
+  const sess = {
+    subscribe: (fn: (event: any) => void) => {
+      listener = fn;
+      return () => { listener = undefined; };
+    },
+    getSessionStats: () => current,
+    abort: async () => { aborts++; },
+  } as any;
+
+  const watch = watchBudget(sess, { maxCostUsd: 0.1 }, stats(0, 0));
+  current = stats(0.05, 500);
+  listener!({ type: "message_end", message: { role: "assistant" } });
+  assert.equal(watch.exceeded(), undefined);
+
+  current = stats(0.2, 900);
+  listener!({ type: "message_end", message: { role: "user" } });
+  assert.equal(watch.exceeded(), undefined);
+  listener!({ type: "message_end", message: { role: "assistant" } });
+  listener!({ type: "message_end", message: { role: "assistant" } });
+  assert.match(watch.exceeded()!, /reached the task budget/);
+  assert.equal(aborts, 1);
+
+  watch.stop();
+  assert.equal(listener, undefined);
+});
+
+test("watchBudget counts spend the session's stats don't include", () => {
+  let listener: ((event: any) => void) | undefined;
+  const subagents = { cost: 0, tokens: 0 };
+  const sess = {
+    subscribe: (fn: (event: any) => void) => {
+      listener = fn;
+      return () => {};
+    },
+    getSessionStats: () => stats(0.05, 500),
+    abort: async () => {},
+  } as any;
+
+  const watch = watchBudget(sess, { maxCostUsd: 0.1 }, stats(0, 0), () => subagents);
+  listener!({ type: "message_end", message: { role: "assistant" } });
+  assert.equal(watch.exceeded(), undefined);
+
+  subagents.cost = 0.06;
+  listener!({ type: "message_end", message: { role: "assistant" } });
+  assert.match(watch.exceeded()!, /cost \$0\.1100 reached the task budget/);
+});
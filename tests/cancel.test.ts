@@ -0,0 +1,35 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { parseCancelRequest } from "../src/cancel.ts";
+
+test("knight-addressed cancel takes the task id from the payload", () => {
+  const req = parseCancelRequest(
+    "galahad",
+    "galahad",
+    JSON.stringify({ task_id: "sec-123", reason: "wrong target", cancelled_by: "tim" }),
+  );
+  assert.deepEqual(req, { taskId: "sec-123", reason: "wrong target", cancelledBy: "tim", addressed: true });
+});
+
+test("knight name matching is case-insensitive", () => {
+  assert.equal(parseCancelRequest("Galahad", "galahad", '{"taskId":"x"}')?.addressed, true);
+});
+
+test("knight-addressed cancel without a task id is rejected", () => {
+  assert.equal(parseCancelRequest("galahad", "galahad", "{}"), null);
+  assert.equal(parseCancelRequest("galahad", "galahad", ""), null);
+});
+
+test("task-addressed cancel uses the subject token and an optional payload", () => {
+  assert.deepEqual(parseCancelRequest("sec-123", "galahad", ""), {
+    taskId: "sec-123",
+    reason: undefined,
+    cancelledBy: undefined,
+    addressed: false,
+  });
+  assert.equal(parseCancelRequest("sec-123", "galahad", '{"from":"tim"}')?.cancelledBy, "tim");
+});
+
+test("a plain-text payload is taken as the reason", () => {
+  assert.equal(parseCancelRequest("sec-123", "galahad", "runaway loop")?.reason, "runaway loop");
+});
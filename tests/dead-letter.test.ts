@@ -0,0 +1,106 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { KnightConfig } from "../src/config.ts";
+import {
+  maxDeliveriesSubject,
+  parseMaxDeliveriesAdvisory,
+  parseReplayRequest,
+  replayLetters,
+  storedTask,
+  type StoredDeadLetter,
+} from "../src/dead-letter.ts";
+import { DEAD_LETTER_HEADERS } from "../src/nats.ts";
+
+const config = {
+  knightName: "galahad",
+  subscribeTopics: ["fleet-a.tasks.security.>"],
+  natsTasksStream: "fleet_a_tasks",
+  taskDeliveryMode: "at-least-once",
+  taskMaxDeliver: 3,
+  deadLetterSubject: "fleet-a.deadletter",
+  deadLetterStream: "fleet_a_deadletter",
+} as KnightConfig;
+
+function letter(seq: number, taskId: string, headers: Record<string, string>): StoredDeadLetter {
+  return {
+    seq,
+    subject: `fleet-a.deadletter.galahad.${taskId}`,
+    data: new TextEncoder().encode(`{"task":"scan","task_id":"${taskId}"}`),
+    headers: { get: (key) => headers[key] ?? "" },
+  };
+}
+
+async function* iterate<T>(items: T[]): AsyncIterable<T> {
+  yield* items;
+}
+
+test("replay request defaults to the oldest 100 dead letters", () => {
+  assert.deepEqual(parseReplayRequest(""), { taskIds: [], limit: 100 });
+  assert.deepEqual(parseReplayRequest("not json"), { taskIds: [], limit: 100 });
+});
+
+test("replay request takes task ids and a bounded limit", () => {
+  assert.deepEqual(parseReplayRequest('{"task_ids":["a"," b ","",3],"limit":5}'), { taskIds: ["a", "b"], limit: 5 });
+  assert.equal(parseReplayRequest('{"limit":50000}').limit, 1000);
+  assert.equal(parseReplayRequest('{"limit":-1}').limit, 100);
+});
+
+test("replay republishes each dead letter byte-for-byte to its original subject, then removes it", async () => {
+  const published: { subject: string; data: Uint8Array; headers: Record<string, string> }[] = [];
+  const removed: number[] = [];
+  const letters = [
+    letter(7, "sec-1", { [DEAD_LETTER_HEADERS.taskId]: "sec-1", [DEAD_LETTER_HEADERS.subject]: "fleet-a.tasks.security.sec-1" }),
+    letter(9, "sec-2", { [DEAD_LETTER_HEADERS.subject]: "fleet-a.tasks.security.sec-2" }),
+  ];
+  const result = await replayLetters(config, iterate(letters), {
+    publish: async (subject, data, headers) => void published.push({ subject, data, headers }),
+    remove: async (seq) => void removed.push(seq),
+  });
+
+  assert.deepEqual(result, { knight: "galahad", replayed: ["sec-1", "sec-2"], skipped: [] });
+  assert.deepEqual(published.map((p) => p.subject), ["fleet-a.tasks.security.sec-1", "fleet-a.tasks.security.sec-2"]);
+  assert.equal(published[0].data, letters[0].data);
+  assert.deepEqual(published[0].headers, { "Pi-Knight-Replayed-From": "fleet_a_deadletter:7" });
+  assert.deepEqual(removed, [7, 9]);
+});
+
+test("replay leaves dead letters without an original subject in place", async () => {
+  const removed: number[] = [];
+  const result = await replayLetters(config, iterate([letter(3, "sec-3", {})]), {
+    publish: async () => assert.fail("nothing to publish"),
+    remove: async (seq) => void removed.push(seq),
+  });
+  assert.deepEqual(result.skipped, [{ taskId: "sec-3", reason: "original subject unknown" }]);
+  assert.deepEqual(removed, []);
+});
+
+test("replay keeps a dead letter whose republish fails", async () => {
+  const removed: number[] = [];
+  const replay = replayLetters(config, iterate([letter(4, "sec-4", { [DEAD_LETTER_HEADERS.subject]: "fleet-a.tasks.security.sec-4" })]), {
+    publish: async () => { throw new Error("no responders"); },
+    remove: async (seq) => void removed.push(seq),
+  });
+  await assert.rejects(replay, /no responders/);
+  assert.deepEqual(removed, []);
+});
+
+test("exhausted deliveries are watched on the consumer's MAX_DELIVERIES advisory", () => {
+  assert.equal(maxDeliveriesSubject(config), "$JS.EVENT.ADVISORY.CONSUMER.MAX_DELIVERIES.fleet_a_tasks.galahad-consumer");
+  assert.deepEqual(
+    parseMaxDeliveriesAdvisory('{"type":"io.nats.jetstream.advisory.v1.max_deliver","stream":"fleet_a_tasks","consumer":"galahad-consumer","stream_seq":42,"deliveries":3}'),
+    { stream: "fleet_a_tasks", consumer: "galahad-consumer", streamSeq: 42, deliveries: 3 },
+  );
+  assert.equal(parseMaxDeliveriesAdvisory('{"stream":"fleet_a_tasks"}'), null);
+  assert.equal(parseMaxDeliveriesAdvisory("not json"), null);
+});
+
+test("an exhausted task is dead-lettered with its stored payload and subject", () => {
+  const raw = '{"task":"scan","task_id":"sec-5"}';
+  assert.deepEqual(storedTask("fleet-a.tasks.security.sec-5", raw), {
+    task: "",
+    taskId: "sec-5",
+    subject: "fleet-a.tasks.security.sec-5",
+    raw,
+  });
+  assert.equal(storedTask("fleet-a.tasks.security.sec-6", "plain text task").taskId, "sec-6");
+});
@@ -0,0 +1,56 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, symlinkSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { bashWriteTargets, FsScope, resolveRealPath } from "../src/fs-scope.ts";
+
+function tree() {
+  const root = mkdtempSync(join(tmpdir(), "fs-scope-"));
+  for (const dir of ["data", "vault/Briefings", "vault/Notes", "etc"]) mkdirSync(join(root, dir), { recursive: true });
+  symlinkSync(join(root, "etc"), join(root, "data/escape"));
+  symlinkSync(join(root, "vault/Notes"), join(root, "vault/Briefings/notes"));
+  const scope = new FsScope([join(root, "data"), join(root, "vault/Briefings")], [join(root, "vault")]);
+  return { root, scope, data: join(root, "data") };
+}
+
+test("writes inside a writable root are allowed, even to paths that don't exist yet", () => {
+  const { root, scope, data } = tree();
+  assert.equal(scope.checkWrite("notes/today.md", data), undefined);
+  assert.equal(scope.checkWrite(join(root, "vault/Briefings/2026/q3.md"), data), undefined);
+});
+
+test("a nested writable root wins over the read-only root around it", () => {
+  const { root, scope, data } = tree();
+  assert.match(scope.checkWrite(join(root, "vault/Notes/a.md"), data)!, /is under read-only .*\/vault$/);
+  assert.equal(scope.checkWrite(join(root, "vault/Briefings/a.md"), data), undefined);
+});
+
+test("'..' and symlinks are resolved before the check", () => {
+  const { root, scope, data } = tree();
+  assert.match(scope.checkWrite("../etc/passwd", data)!, /outside the writable paths/);
+  assert.match(scope.checkWrite("escape/passwd", data)!, /\(.*\/etc\/passwd\) is outside/);
+  // The link lives in a writable root but points into a read-only one.
+  assert.match(scope.checkWrite(join(root, "vault/Briefings/notes/a.md"), data)!, /read-only/);
+  // `..` applies to where the link points, as the kernel does it.
+  assert.equal(resolveRealPath("escape/../data/x", data), join(root, "data/x"));
+});
+
+test("bash redirections and cp/mv/rm/tee targets are found", () => {
+  const targets = (cmd: string) => bashWriteTargets(cmd, "/data").map((t) => t.path);
+  assert.deepEqual(targets("echo hi > /etc/motd 2>&1 && cat a >> 'log file.txt'"), ["/etc/motd", "log file.txt"]);
+  assert.deepEqual(targets("cp -r src /vault/x; mv a b c/; rm -rf -- -weird /tmp/y | tee -a out.log"), ["/vault/x", "c/", "-weird", "/tmp/y", "out.log"]);
+  assert.deepEqual(targets("cp -t /opt a b && sudo cp a b"), ["/opt", "b"]);
+  assert.deepEqual(targets("cat <<'EOF' > /tmp/a\nrm -rf /\nEOF\necho $HOME > $OUT"), ["/tmp/a"]);
+  assert.deepEqual(targets("ls -la /etc # > /etc/x\ngrep -c x < in.txt &> /dev/null"), ["/dev/null"]);
+});
+
+test("cd moves where later relative targets resolve", () => {
+  assert.deepEqual(bashWriteTargets("cd /vault/Notes && echo x > a.md", "/data"), [{ path: "a.md", cwd: "/vault/Notes" }]);
+});
+
+test("a bash command is refused on the first out-of-scope write", () => {
+  const { root, scope } = tree();
+  assert.equal(scope.checkBash(`echo ok > ${root}/data/a.txt 2>/dev/null`), undefined);
+  assert.match(scope.checkBash(`cp a.md ${root}/vault/Notes/`)!, /read-only/);
+});
@@ -0,0 +1,74 @@
+import test, { after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { duplicateResult, IdempotencyStore, replayStore } from "../src/idempotency.ts";
+
+const HOUR = 3_600_000;
+
+const tempDirs: string[] = [];
+after(() => Promise.all(tempDirs.map((dir) => rm(dir, { recursive: true, force: true }))));
+
+function storePath(): string {
+  const dir = mkdtempSync(join(tmpdir(), "pi-knight-idem-"));
+  tempDirs.push(dir);
+  return join(dir, "idempotency.jsonl");
+}
+
+test("stored results survive a restart", () => {
+  const path = storePath();
+  new IdempotencyStore(path, HOUR, 10).set("job-1", "t1", { result: "done" });
+  const reloaded = new IdempotencyStore(path, HOUR, 10);
+  assert.equal(reloaded.load(), 1);
+  assert.deepEqual(reloaded.get("job-1")?.result, { result: "done" });
+});
+
+test("entries expire after the TTL", () => {
+  const store = new IdempotencyStore("", HOUR, 10);
+  store.set("job-1", "t1", { result: "done" }, 0);
+  assert.ok(store.get("job-1", HOUR - 1));
+  assert.equal(store.get("job-1", HOUR), undefined);
+  assert.equal(store.size, 0);
+});
+
+test("the oldest entries are evicted past the bound", () => {
+  const store = new IdempotencyStore("", HOUR, 2);
+  store.set("a", "t1", {});
+  store.set("b", "t2", {});
+  store.set("a", "t3", {}); // refreshed — now newest
+  store.set("c", "t4", {});
+  assert.equal(store.get("b"), undefined);
+  assert.equal(store.get("a")?.taskId, "t3");
+  assert.ok(store.get("c"));
+});
+
+test("load drops expired and malformed lines and compacts the file", () => {
+  const path = storePath();
+  const now = 10 * HOUR;
+  writeFileSync(path, [
+    JSON.stringify({ key: "old", taskId: "t0", storedAt: now - 2 * HOUR, result: {} }),
+    "{torn",
+    JSON.stringify({ key: "a", taskId: "t1", storedAt: now - 10, result: { n: 1 } }),
+    JSON.stringify({ key: "a", taskId: "t2", storedAt: now - 5, result: { n: 2 } }),
+  ].join("\n"));
+  const store = new IdempotencyStore(path, HOUR, 10);
+  assert.equal(store.load(now), 1);
+  assert.equal(store.get("a", now)?.taskId, "t2");
+  assert.equal(replayStore(readFileSync(path, "utf-8"), now, HOUR).length, 1);
+  assert.equal(readFileSync(path, "utf-8").trim().split("\n").length, 1);
+});
+
+test("duplicateResult re-addresses the stored result and zeroes spend", () => {
+  const result = duplicateResult(
+    { key: "job-1", taskId: "t1", storedAt: 0, result: { task_id: "t1", result: "answer", cost: 0.4, success: true } },
+    "t2",
+    new Date("2026-10-01T00:00:00.000Z"),
+  );
+  assert.equal(result.task_id, "t2");
+  assert.equal(result.duplicate_of, "t1");
+  assert.equal(result.result, "answer");
+  assert.equal(result.cost, 0);
+  assert.equal(result.cached, true);
+});
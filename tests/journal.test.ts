@@ -0,0 +1,36 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync } from "node:fs";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Journal, parseJsonLines } from "../src/journal.ts";
+
+test("parseJsonLines skips blank and torn lines", () => {
+  assert.deepEqual(parseJsonLines('{"a":1}\n\n{"a":\n{"a":2}\n'), [{ a: 1 }, { a: 2 }]);
+});
+
+test("a journal appends, then rewrites from the live records once appends pile up", (t) => {
+  const dir = mkdtempSync(join(tmpdir(), "journal-"));
+  t.after(() => rm(dir, { recursive: true, force: true }));
+  const path = join(dir, "sub", "j.jsonl");
+  const journal = new Journal<{ n: number }>(path, "Test journal", 3);
+  assert.equal(journal.read(), undefined);
+
+  const live = [{ n: 1 }];
+  journal.append({ n: 1 }, () => live);
+  journal.append({ n: 2 }, () => live);
+  assert.deepEqual(parseJsonLines(readFileSync(path, "utf-8")), [{ n: 1 }, { n: 2 }]);
+
+  journal.append({ n: 3 }, () => [{ n: 3 }]);
+  assert.equal(journal.read(), '{"n":3}\n');
+  journal.append({ n: 4 }, () => []);
+  assert.equal(journal.read(), '{"n":3}\n{"n":4}\n');
+});
+
+test("a journal without a path keeps nothing", () => {
+  const journal = new Journal<{ n: number }>("", "Test journal", 1);
+  journal.append({ n: 1 }, () => [{ n: 1 }]);
+  journal.rewrite([{ n: 1 }]);
+  assert.equal(journal.read(), undefined);
+});
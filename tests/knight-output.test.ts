@@ -5,6 +5,7 @@ import {
   extractTextFromAssistantContent,
   getBestAssistantResult,
   isDeliverableAssistantText,
+  lastProviderError,
   resolveTaskOutcome,
   summarizeSessionTail,
 } from "../src/result-extraction.ts";
@@ -139,6 +140,20 @@ test("describeSessionFailure reports an abort as a timeout when the task signal
   );
 });
 
+test("describeSessionFailure names an explicit cancel instead of a timeout", () => {
+  const aborted = session([
+    { role: "assistant", content: [], stopReason: "aborted" },
+  ]) as any;
+  assert.equal(
+    describeSessionFailure(aborted, true, "cancelled"),
+    "Task aborted before producing output (cancelled)",
+  );
+  assert.equal(
+    describeSessionFailure(session([]) as any, true, "cancelled"),
+    "Task aborted before producing output (cancelled)",
+  );
+});
+
 test("describeSessionFailure returns undefined for a normal stop with no output", () => {
   const reason = describeSessionFailure(
     session([
@@ -193,3 +208,41 @@ test("summarizeSessionTail reports roles, stopReasons and part-type counts witho
   assert.ok(!JSON.stringify(tail).includes("secret task text"));
   assert.ok(!JSON.stringify(tail).includes("private"));
 });
+
+test("resolveTaskOutcome publishes validated structured data", () => {
+  const outcome = resolveTaskOutcome('{"ok":true}', undefined, { ok: true, data: { ok: true }, repairs: 0 });
+  assert.deepEqual(outcome, { result: '{"ok":true}', success: true, data: { ok: true } });
+});
+
+test("resolveTaskOutcome fails a deliverable that never matched the output schema", () => {
+  const outcome = resolveTaskOutcome("not json", undefined, { ok: false, errors: ["/: must be object"], repairs: 2 });
+  assert.equal(outcome.success, false);
+  assert.equal(outcome.result, "not json");
+  assert.deepEqual(outcome.validationErrors, ["/: must be object"]);
+  assert.match(outcome.error ?? "", /after 2 repair attempt\(s\): \/: must be object/);
+});
+
+test("lastProviderError reports a provider error that ended the last turn", () => {
+  const failed = session([
+    { role: "user", content: "do the thing" },
+    { role: "assistant", content: [], stopReason: "error", errorMessage: "503 upstream overloaded" },
+  ]) as any;
+  assert.equal(lastProviderError(failed), "503 upstream overloaded");
+});
+
+test("lastProviderError ignores an error the session recovered from", () => {
+  const recovered = session([
+    { role: "assistant", content: [], stopReason: "error", errorMessage: "transient" },
+    { role: "assistant", content: [{ type: "text", text: "done" }], stopReason: "stop" },
+  ]) as any;
+  assert.equal(lastProviderError(recovered), undefined);
+  assert.equal(lastProviderError(session([]) as any), undefined);
+});
+
+test("resolveTaskOutcome fails an over-budget task but keeps its partial deliverable", () => {
+  const outcome = resolveTaskOutcome("Half the report", undefined, undefined, "cost $1.2000 reached the task budget of $1");
+  assert.equal(outcome.success, false);
+  assert.equal(outcome.budgetExceeded, true);
+  assert.equal(outcome.result, "Half the report");
+  assert.equal(outcome.error, "Budget exceeded: cost $1.2000 reached the task budget of $1");
+});
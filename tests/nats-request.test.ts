@@ -0,0 +1,32 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { responseText } from "../src/tools/nats.ts";
+import type { ResultRef } from "../src/nats.ts";
+
+const ref = (name: string): ResultRef => ({ bucket: "pi_knight_results", name, size: 0, sha256: "" });
+
+test("responseText inlines offloaded result text and structured output", async () => {
+  const objects: Record<string, string> = { "sec-1": "the full answer", "sec-1.data": '{"findings":2}' };
+  const text = await responseText(
+    "sec-1",
+    { result: "the full…", result_ref: ref("sec-1"), data_ref: ref("sec-1.data") },
+    "",
+    async (r) => objects[r.name],
+  );
+  assert.equal(text, 'the full answer\n\nStructured output:\n```json\n{\n  "findings": 2\n}\n```');
+});
+
+test("responseText keeps inline structured output and plain results as they are", async () => {
+  const fetchRef = async () => assert.fail("nothing is offloaded");
+  assert.equal(await responseText("sec-2", { result: "done" }, "", fetchRef), "done");
+  assert.equal(
+    await responseText("sec-2", { result: "done", data: { ok: true } }, "", fetchRef),
+    'done\n\nStructured output:\n```json\n{\n  "ok": true\n}\n```',
+  );
+});
+
+test("responseText says why an offloaded part could not be fetched", async () => {
+  const expired = async () => { throw new Error("result object pi_knight_results/sec-3.data not found (expired?)"); };
+  const text = await responseText("sec-3", { result: "done", data_ref: ref("sec-3.data") }, "", expired);
+  assert.equal(text, "done\n\n(Structured output could not be fetched: result object pi_knight_results/sec-3.data not found (expired?))");
+});
@@ -1,6 +1,94 @@
 import test from "node:test";
 import assert from "node:assert/strict";
-import { normalizeTimeoutMs } from "../src/nats.ts";
+import {
+  buildDeadLetter,
+  consumerConfigFor,
+  DEAD_LETTER_HEADERS,
+  normalizeTimeoutMs,
+  offloadedData,
+  offloadedResult,
+  overrideErrors,
+  sha256Hex,
+  withRedeliveryNotice,
+} from "../src/nats.ts";
+import { parsePriorityDomains, parseTaskPriority, type KnightConfig } from "../src/config.ts";
+
+function config(overrides: Partial<KnightConfig> = {}): KnightConfig {
+  return {
+    knightName: "galahad",
+    knightModel: "openrouter/deepseek/deepseek-v3.2",
+    subscribeTopics: ["fleet-a.tasks.security.>"],
+    natsUrl: "nats://localhost:4222",
+    natsTasksStream: "fleet_a_tasks",
+    natsResultsStream: "fleet_a_results",
+    natsResultsPrefix: "fleet-a.results",
+    taskTimeoutMs: 1_800_000,
+    taskDeliveryMode: "at-most-once",
+    taskMaxDeliver: 3,
+    taskAckWaitMs: 120_000,
+    taskNakDelayMs: 30_000,
+    maxConcurrentTasks: 2,
+    taskQueueJournalPath: "",
+    taskPriorityDomains: {},
+    taskPriorityAgingMs: 0,
+    idempotencyStorePath: "",
+    idempotencyTtlMs: 86_400_000,
+    idempotencyMaxEntries: 1000,
+    threadStorePath: "",
+    threadMaxEntries: 5000,
+    taskMaxCostUsd: 0,
+    taskMaxTokens: 0,
+    spendLedgerPath: "",
+    spendSoftCapDailyUsd: 0,
+    spendSoftCapMonthlyUsd: 0,
+    spendHardCapDailyUsd: 0,
+    spendHardCapMonthlyUsd: 0,
+    spendDegradedModel: "",
+    sessionMaxMessages: 0,
+    sessionMaxBytes: 0,
+    sessionMaxCostUsd: 0,
+    sessionMaxIdleMs: 0,
+    outputSchemaMaxRepairs: 2,
+    taskEnvelopeStrict: false,
+    resultOffloadBytes: 524_288,
+    resultObjectBucket: "fleet_a_results_objects",
+    resultObjectTtlMs: 604_800_000,
+    deadLetterSubject: "fleet-a.deadletter",
+    deadLetterStream: "fleet_a_deadletter",
+    progressEnabled: false,
+    progressThrottleMs: 1000,
+    hotReloadEnabled: false,
+    hotReloadDebounceMs: 5000,
+    metricsPort: 3000,
+    logLevel: "info",
+    hostname: "test",
+    thinkingLevel: "off",
+    toolPolicyPath: "",
+    approvalTimeoutMs: 300_000,
+    auditLogPath: "",
+    auditLogMaxBytes: 0,
+    auditLogMaxFiles: 0,
+    auditSubject: "",
+    auditStream: "test_audit",
+    auditMaxAgeMs: 0,
+    redactEnvVars: [],
+    redactSecretFiles: [],
+    redactEntropy: true,
+    fsWritableRoots: [],
+    fsReadOnlyRoots: [],
+    preambleTemplatePath: "",
+    vaultPath: "/vault",
+    vaultRules: "",
+    fallbackModels: [],
+    modelAllowlist: [],
+    thinkingAllowlist: [],
+    maxRetryDelayMs: 60_000,
+    thinkingBudgetLow: 1024,
+    thinkingBudgetMedium: 4096,
+    thinkingBudgetHigh: 8192,
+    ...overrides,
+  };
+}
 
 test("normalizeTimeoutMs keeps positive finite timeouts", () => {
   assert.equal(normalizeTimeoutMs(1800000), 1800000);
@@ -19,3 +107,128 @@ test("normalizeTimeoutMs rejects non-finite and non-number inputs", () => {
   assert.equal(normalizeTimeoutMs(null), undefined);
   assert.equal(normalizeTimeoutMs("1000"), undefined);
 });
+
+test("consumerConfigFor keeps the at-most-once default: single delivery, ack_wait past the task timeout", () => {
+  const c = consumerConfigFor(config());
+  assert.equal(c.durable_name, "galahad-consumer");
+  assert.equal(c.max_deliver, 1);
+  assert.equal(c.ack_wait, (1_800_000 + 60_000) * 1_000_000);
+});
+
+test("consumerConfigFor at-least-once uses the redelivery cap and the heartbeat ack_wait", () => {
+  const c = consumerConfigFor(config({ taskDeliveryMode: "at-least-once", taskMaxDeliver: 5, taskAckWaitMs: 90_000 }));
+  assert.equal(c.max_deliver, 5);
+  assert.equal(c.ack_wait, 90_000 * 1_000_000);
+});
+
+test("consumerConfigFor never configures fewer than one delivery", () => {
+  const c = consumerConfigFor(config({ taskDeliveryMode: "at-least-once", taskMaxDeliver: 0 }));
+  assert.equal(c.max_deliver, 1);
+});
+
+test("withRedeliveryNotice warns about partial side effects and keeps the task text", () => {
+  const text = withRedeliveryNotice("Scan the cluster", 2);
+  assert.match(text, /attempt 2/);
+  assert.match(text, /already/);
+  assert.ok(text.endsWith("Scan the cluster"));
+});
+
+test("parseTaskPriority accepts level names and indexes", () => {
+  assert.equal(parseTaskPriority("High"), "high");
+  assert.equal(parseTaskPriority(3), "critical");
+  assert.equal(parseTaskPriority(0), "low");
+  assert.equal(parseTaskPriority("urgent"), undefined);
+  assert.equal(parseTaskPriority(7), undefined);
+  assert.equal(parseTaskPriority(undefined), undefined);
+});
+
+test("parsePriorityDomains maps domains and drops invalid entries", () => {
+  assert.deepEqual(parsePriorityDomains("security=high, alerts=critical,research=low,bogus=urgent,=high"), {
+    security: "high",
+    alerts: "critical",
+    research: "low",
+  });
+  assert.deepEqual(parsePriorityDomains(""), {});
+});
+
+test("overrideErrors allows the knight's defaults and allowlisted overrides", () => {
+  const c = config({ modelAllowlist: ["openrouter/anthropic/claude-sonnet-4.6"], thinkingAllowlist: ["high"] });
+  assert.deepEqual(overrideErrors(c, {}), []);
+  assert.deepEqual(overrideErrors(c, { model: c.knightModel, thinking: "off" }), []);
+  assert.deepEqual(overrideErrors(c, { model: "openrouter/anthropic/claude-sonnet-4.6", thinking: "high" }), []);
+});
+
+test("overrideErrors names each disallowed or unknown override", () => {
+  const c = config({ thinkingAllowlist: ["high"] });
+  assert.deepEqual(overrideErrors(c, { model: "openrouter/anthropic/claude-opus-4.6", thinking: "medium" }), [
+    "/metadata/model: openrouter/anthropic/claude-opus-4.6 is not on this knight's model allowlist",
+    "/metadata/thinking: medium is not on this knight's thinking allowlist",
+  ]);
+  assert.match(overrideErrors(c, { thinking: "extreme" })[0], /not a thinking level/);
+});
+
+test("buildDeadLetter keeps the raw payload and records the failure in headers", () => {
+  const raw = '{"task":"scan","task_id":"sec-1","priority":"high"}';
+  const letter = buildDeadLetter(
+    config(),
+    { task: "scan", taskId: "sec-1", raw, subject: "fleet-a.tasks.security.sec-1", receivedAt: "2026-10-01T00:00:00.000Z" },
+    { kind: "failed", reason: "boom\nstack", attempt: 3 },
+    new Date("2026-10-01T00:05:00.000Z"),
+  );
+  assert.equal(letter.subject, "fleet-a.deadletter.galahad.sec-1");
+  assert.equal(letter.payload, raw);
+  assert.equal(letter.headers[DEAD_LETTER_HEADERS.kind], "failed");
+  assert.equal(letter.headers[DEAD_LETTER_HEADERS.reason], "boom stack");
+  assert.equal(letter.headers[DEAD_LETTER_HEADERS.knight], "galahad");
+  assert.equal(letter.headers[DEAD_LETTER_HEADERS.taskId], "sec-1");
+  assert.equal(letter.headers[DEAD_LETTER_HEADERS.receivedAt], "2026-10-01T00:00:00.000Z");
+  assert.equal(letter.headers[DEAD_LETTER_HEADERS.subject], "fleet-a.tasks.security.sec-1");
+  assert.equal(letter.headers[DEAD_LETTER_HEADERS.attempt], "3");
+  assert.equal(letter.headers[DEAD_LETTER_HEADERS.failedAt], "2026-10-01T00:05:00.000Z");
+});
+
+test("buildDeadLetter bounds the reason and omits the attempt outside at-least-once", () => {
+  const letter = buildDeadLetter(config(), { task: "scan", taskId: "sec-1", raw: "scan" }, { kind: "failed", reason: "x".repeat(5000) });
+  assert.equal(letter.headers[DEAD_LETTER_HEADERS.reason].length, 1000);
+  assert.equal(letter.headers[DEAD_LETTER_HEADERS.attempt], undefined);
+  assert.equal(letter.headers[DEAD_LETTER_HEADERS.receivedAt], undefined);
+});
+
+test("buildDeadLetter re-serializes tasks that have no raw payload", () => {
+  const letter = buildDeadLetter(config(), { task: "scan", taskId: "sec-1", timeoutMs: 5000 }, { kind: "unprocessable", reason: "x" });
+  assert.deepEqual(JSON.parse(letter.payload), { task: "scan", task_id: "sec-1", metadata: { timeout_ms: 5000 } });
+  assert.equal(letter.headers[DEAD_LETTER_HEADERS.subject], undefined);
+});
+
+test("buildDeadLetter keeps an unpublished result so a replay delivers it", () => {
+  const result = { task_id: "sec-1", success: true, result: "done" };
+  const letter = buildDeadLetter(
+    config(),
+    { task: "scan", taskId: "sec-1", raw: '{"task":"scan"}', subject: "fleet-a.tasks.security.sec-1" },
+    { kind: "unpublished", reason: "result publish failed", result },
+  );
+  assert.equal(letter.subject, "fleet-a.deadletter.galahad.sec-1");
+  assert.deepEqual(JSON.parse(letter.payload), result);
+  assert.equal(letter.headers[DEAD_LETTER_HEADERS.kind], "unpublished");
+  assert.equal(letter.headers[DEAD_LETTER_HEADERS.subject], "fleet-a.results.sec-1");
+});
+
+test("offloadedResult keeps a preview inline and carries the reference", () => {
+  const text = "x".repeat(10_000);
+  const ref = { bucket: "fleet_a_results_objects", name: "sec-1", size: 10_000, sha256: "abc" };
+  const msg = offloadedResult({ task_id: "sec-1", success: true, result: text }, ref);
+  assert.deepEqual(msg.result_ref, ref);
+  assert.equal(msg.success, true);
+  assert.ok(String(msg.result).startsWith("x".repeat(2000) + "\n\n[Full result (10000 bytes)"));
+  assert.ok(String(msg.result).length < 2200);
+});
+
+test("offloadedData moves the structured output to a reference", () => {
+  const ref = { bucket: "fleet_a_results_objects", name: "sec-1.data", size: 600_000, sha256: "abc" };
+  const msg = offloadedData({ task_id: "sec-1", success: true, result: "done", data: { rows: [1, 2, 3] } }, ref);
+  assert.deepEqual(msg, { task_id: "sec-1", success: true, result: "done", data_ref: ref });
+});
+
+test("sha256Hex matches the known digest", () => {
+  assert.equal(sha256Hex(new TextEncoder().encode("abc")), "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad");
+});
@@ -0,0 +1,42 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { KnightConfig } from "../src/config.ts";
+import { buildPreamble, preambleVariables, renderPreamble } from "../src/preamble.ts";
+
+const config = (overrides: Partial<KnightConfig> = {}) =>
+  ({
+    knightName: "galahad",
+    knightModel: "openrouter/deepseek/deepseek-v3.2",
+    natsResultsPrefix: "fleet-a.results",
+    preambleTemplatePath: "",
+    vaultPath: "/vault",
+    vaultRules: "write only to Briefings/",
+    ...overrides,
+  }) as KnightConfig;
+
+test("the built-in preamble fills in the knight's runtime context", () => {
+  const { source, text } = buildPreamble(config({ preambleTemplatePath: "/nonexistent/PREAMBLE.md" }));
+  assert.equal(source, "built-in");
+  assert.match(text, /^You are galahad, a Knight of the Round Table\./);
+  assert.match(text, /Model: openrouter\/deepseek\/deepseek-v3\.2/);
+  assert.match(text, /Vault: \/vault \(write only to Briefings\/\)/);
+  assert.doesNotMatch(text, /\{\{/);
+});
+
+test("a line with an empty variable is dropped", () => {
+  const vars = preambleVariables(config({ vaultPath: "" }));
+  assert.equal(renderPreamble("Knight: {{knight}}\nVault: {{vault_path}} ({{vault_rules}})\nEnd", vars), "Knight: galahad\nEnd");
+});
+
+test("unknown placeholders are left as written", () => {
+  assert.equal(renderPreamble("{{ table_prefix }} {{unknown}}", preambleVariables(config())), "fleet-a {{unknown}}");
+});
+
+test("a template file replaces the built-in preamble", () => {
+  const path = join(mkdtempSync(join(tmpdir(), "preamble-")), "PREAMBLE.md");
+  writeFileSync(path, "You are {{knight}} on {{table_prefix}}.");
+  assert.deepEqual(buildPreamble(config({ preambleTemplatePath: path })), { source: path, text: "You are galahad on fleet-a." });
+});
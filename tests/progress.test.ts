@@ -0,0 +1,70 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { AgentSessionEvent } from "@earendil-works/pi-coding-agent";
+import { ProgressStream, type ProgressEvent } from "../src/progress.ts";
+
+function textDelta(delta: string): AgentSessionEvent {
+  return {
+    type: "message_update",
+    assistantMessageEvent: { type: "text_delta", delta },
+  } as unknown as AgentSessionEvent;
+}
+
+function collect(throttleMs = 60_000): { stream: ProgressStream; events: ProgressEvent[] } {
+  const events: ProgressEvent[] = [];
+  return { stream: new ProgressStream((e) => events.push(e), throttleMs), events };
+}
+
+test("text deltas are coalesced until the next event", () => {
+  const { stream, events } = collect();
+  stream.handle(textDelta("Checking "));
+  stream.handle(textDelta("the pods"));
+  assert.deepEqual(events, []);
+
+  stream.handle({ type: "tool_execution_start", toolCallId: "c1", toolName: "bash", args: {} });
+  assert.deepEqual(events, [
+    { type: "text", text: "Checking the pods" },
+    { type: "tool_start", tool: "bash", toolCallId: "c1" },
+  ]);
+  stream.close();
+});
+
+test("text deltas flush after the throttle window", async () => {
+  const { stream, events } = collect(10);
+  stream.handle(textDelta("hello"));
+  await new Promise((r) => setTimeout(r, 30));
+  assert.deepEqual(events, [{ type: "text", text: "hello" }]);
+  stream.close();
+});
+
+test("tool_end reports the tool's error flag and duration", () => {
+  const { stream, events } = collect();
+  stream.handle({ type: "tool_execution_start", toolCallId: "c1", toolName: "read", args: {} });
+  stream.handle({ type: "tool_execution_end", toolCallId: "c1", toolName: "read", result: {}, isError: true });
+  const end = events[1];
+  assert.equal(end.type, "tool_end");
+  if (end.type === "tool_end") {
+    assert.equal(end.isError, true);
+    assert.ok(end.durationMs >= 0);
+  }
+  stream.close();
+});
+
+test("retry and compaction events are mapped", () => {
+  const { stream, events } = collect();
+  stream.handle({ type: "auto_retry_start", attempt: 2, maxAttempts: 3, delayMs: 4000, errorMessage: "429" });
+  stream.handle({ type: "compaction_start", reason: "threshold" });
+  assert.deepEqual(events, [
+    { type: "retry", attempt: 2, maxAttempts: 3, delayMs: 4000, error: "429" },
+    { type: "compaction_start", reason: "threshold" },
+  ]);
+  stream.close();
+});
+
+test("close flushes pending text, emits finished, and drops later events", () => {
+  const { stream, events } = collect();
+  stream.handle(textDelta("done"));
+  stream.close();
+  stream.handle({ type: "compaction_start", reason: "manual" });
+  assert.deepEqual(events, [{ type: "text", text: "done" }, { type: "finished" }]);
+});
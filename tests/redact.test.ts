@@ -0,0 +1,62 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { Redactor, secretEnvValues, secretFileValues, shannonEntropy } from "../src/redact.ts";
+
+test("configured secret values are redacted wherever they appear", () => {
+  const redactor = new Redactor(["custom-provider-k3y-value", "true"], false);
+  const { text, redactions } = redactor.redact("KEY=custom-provider-k3y-value\nDEBUG=true\nagain: custom-provider-k3y-value");
+  assert.equal(text, "KEY=[REDACTED]\nDEBUG=true\nagain: [REDACTED]");
+  assert.equal(redactions, 2);
+});
+
+test("a value is found in its JSON-escaped form too", () => {
+  const redactor = new Redactor(['pa"ss\\word'], false);
+  assert.equal(redactor.redact(JSON.stringify({ password: 'pa"ss\\word' })).text, '{"password":"[REDACTED]"}');
+});
+
+test("well-known token shapes are still redacted", () => {
+  const redactor = new Redactor([], false);
+  assert.equal(redactor.redact(`token ghp_${"a".repeat(36)} here`).text, "token [REDACTED] here");
+});
+
+test("long random tokens are redacted, hashes and identifiers are not", () => {
+  const redactor = new Redactor([], true);
+  const random = "gcdRzmRv+HuoOcYauhoB6izZ2sY3BUEC";
+  const hash = "b7d5f3f24cf7d21d270f9bd5817b8a135f65cbbecfa6e3c0a5e20624966aaaac";
+  const text = `key ${random} commit ${hash} id 550e8400-e29b-41d4-a716-446655440000 fn getSessionStatsForTheCurrentUser2026`;
+  assert.equal(redactor.redact(text).text, text.replace(random, "[REDACTED]"));
+  assert.ok(shannonEntropy(random) > shannonEntropy(hash));
+  assert.equal(new Redactor([], false).redact(text).text, text);
+});
+
+test("containsSecret ignores the entropy heuristic", () => {
+  const redactor = new Redactor(["hunter2-hunter2"], true);
+  assert.ok(redactor.containsSecret("password: hunter2-hunter2"));
+  assert.ok(!redactor.containsSecret("nonce gcdRzmRv+HuoOcYauhoB6izZ2sY3BUEC"));
+});
+
+test("redactDeep copies objects and arrays with their strings redacted", () => {
+  const redactor = new Redactor(["s3cret-value-1"], false);
+  const result = { task_id: "t", result: "got s3cret-value-1", data: { items: ["s3cret-value-1", 3] } };
+  assert.deepEqual(redactor.redactDeep(result), { task_id: "t", result: "got [REDACTED]", data: { items: ["[REDACTED]", 3] } });
+  assert.equal(result.result, "got s3cret-value-1");
+});
+
+test("secret env vars are picked by name glob", () => {
+  const env = { OPENROUTER_API_KEY: "sk-or-123456789", NATS_CREDS: "creds-blob-xyz", TASK_MAX_TOKENS: "5000", HOME: "/data" };
+  assert.deepEqual(secretEnvValues(["*_key", "NATS_CREDS"], env), ["sk-or-123456789", "creds-blob-xyz"]);
+});
+
+test("mounted secret files yield their contents and long lines", () => {
+  const dir = mkdtempSync(join(tmpdir(), "secrets-"));
+  mkdirSync(join(dir, "..data"));
+  writeFileSync(join(dir, "api-key"), "provider-key-0123\n");
+  writeFileSync(join(dir, "nats.creds"), "-----BEGIN NATS USER JWT-----\neyJ0eXAiOiJKV1QiLCJhbGciOiJlZDI1NTE5In0\n------END NATS USER JWT------\n");
+  const values = secretFileValues([dir]);
+  assert.ok(values.includes("provider-key-0123"));
+  assert.ok(values.includes("eyJ0eXAiOiJKV1QiLCJhbGciOiJlZDI1NTE5In0"));
+  assert.ok(!values.some((v) => v.startsWith("------END")));
+});
@@ -0,0 +1,125 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { diffSkills, HotReloader, syncConfigFiles, type ReloadPaths } from "../src/reload.ts";
+
+function tempPaths(): ReloadPaths {
+  const root = mkdtempSync(join(tmpdir(), "reload-"));
+  const paths = { skills: join(root, "skills"), config: join(root, "config"), data: join(root, "data") };
+  for (const dir of Object.values(paths)) mkdirSync(dir);
+  return paths;
+}
+
+function addSkill(paths: ReloadPaths, name: string): void {
+  mkdirSync(join(paths.skills, name));
+  writeFileSync(join(paths.skills, name, "SKILL.md"), `---\nname: ${name}\ndescription: Test skill ${name}.\n---\n\nDo ${name}.\n`);
+}
+
+test("the skills diff lists added and removed names", () => {
+  assert.deepEqual(diffSkills(["a", "b"], ["b", "d", "c"]), { count: 3, added: ["c", "d"], removed: ["a"] });
+});
+
+test("personality files are copied from /config only when the ConfigMap changed", () => {
+  const paths = tempPaths();
+  writeFileSync(join(paths.config, "SOUL.md"), "v1");
+  assert.deepEqual(syncConfigFiles(paths), ["SOUL.md"]);
+  assert.equal(readFileSync(join(paths.data, "SOUL.md"), "utf-8"), "v1");
+
+  // The knight's own edit survives while the ConfigMap is unchanged...
+  writeFileSync(join(paths.data, "SOUL.md"), "knight edit");
+  assert.deepEqual(syncConfigFiles(paths), []);
+  assert.equal(readFileSync(join(paths.data, "SOUL.md"), "utf-8"), "knight edit");
+
+  // ...and is replaced once it changes.
+  writeFileSync(join(paths.config, "SOUL.md"), "v2");
+  assert.deepEqual(syncConfigFiles(paths), ["SOUL.md"]);
+  assert.equal(readFileSync(join(paths.data, "SOUL.md"), "utf-8"), "v2");
+});
+
+test("a reload reports the skills diff and reloads the sessions", async () => {
+  const paths = tempPaths();
+  addSkill(paths, "triage");
+  let reloaded = 0;
+  const reloader = new HotReloader({
+    reloadSessions: async () => ++reloaded,
+    debounceMs: 10,
+    knightName: "test",
+    paths,
+  }, ["triage", "retired"]);
+  addSkill(paths, "briefing");
+
+  const outcome = await reloader.reload("http");
+  assert.equal(outcome.ok, true);
+  assert.deepEqual(outcome.skills, { count: 2, added: ["briefing"], removed: ["retired"] });
+  assert.equal(outcome.sessions, 1);
+});
+
+test("a burst of changes reloads once after the debounce", async () => {
+  const paths = tempPaths();
+  let reloads = 0;
+  const done = new Promise<void>((resolve) => {
+    const reloader = new HotReloader({
+      reloadSessions: async () => 0,
+      onReload: () => {
+        reloads++;
+        resolve();
+      },
+      debounceMs: 20,
+      knightName: "test",
+      paths,
+    }, []);
+    reloader.schedule();
+    reloader.schedule();
+    reloader.schedule();
+  });
+  await done;
+  await new Promise((r) => setTimeout(r, 50));
+  assert.equal(reloads, 1);
+});
+
+test("a failed session reload is reported, not thrown", async () => {
+  const paths = tempPaths();
+  const reloader = new HotReloader({
+    reloadSessions: async () => {
+      throw new Error("loader broke");
+    },
+    debounceMs: 10,
+    knightName: "test",
+    paths,
+  }, []);
+  const outcome = await reloader.reload("nats");
+  assert.equal(outcome.ok, false);
+  assert.match(outcome.error!, /loader broke/);
+});
+
+test("a ConfigMap change reloads once, not again for the copy into /data", async () => {
+  const paths = tempPaths();
+  let reloads = 0;
+  let firstReload!: () => void;
+  const reloaded = new Promise<void>((resolve) => (firstReload = resolve));
+  const reloader = new HotReloader({
+    reloadSessions: async () => 0,
+    onReload: () => {
+      reloads++;
+      firstReload();
+    },
+    debounceMs: 20,
+    knightName: "test",
+    paths,
+  }, []);
+  reloader.start();
+  try {
+    writeFileSync(join(paths.config, "SOUL.md"), "v1");
+    // The watchers don't keep the process alive; this timer does.
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    await Promise.race([reloaded, new Promise((_, reject) => (timer = setTimeout(() => reject(new Error("no reload")), 5000)))]);
+    clearTimeout(timer);
+    assert.equal(readFileSync(join(paths.data, "SOUL.md"), "utf-8"), "v1");
+    await new Promise((r) => setTimeout(r, 200));
+    assert.equal(reloads, 1);
+  } finally {
+    reloader.stop();
+  }
+});
@@ -0,0 +1,169 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { SessionPool } from "../src/session-pool.ts";
+
+interface FakeSession {
+  id: number;
+  history: number;
+  disposed: boolean;
+  dispose(): void;
+}
+
+function fakes() {
+  let next = 0;
+  const created: FakeSession[] = [];
+  const create = async () => {
+    const s: FakeSession = { id: next++, history: 0, disposed: false, dispose() { this.disposed = true; } };
+    created.push(s);
+    return s;
+  };
+  return { created, create };
+}
+
+test("different runs hold their own sessions at the same time", async () => {
+  const { create } = fakes();
+  const pool = new SessionPool(create, 2);
+  const a = await pool.acquire("run-a");
+  const b = await pool.acquire("run-b");
+  assert.notEqual(a.session, b.session);
+  a.release();
+  b.release();
+});
+
+test("tasks of the same run take turns on one session", async () => {
+  const { create, created } = fakes();
+  const pool = new SessionPool(create, 2);
+  const first = await pool.acquire("run-a");
+  let secondStarted = false;
+  const second = pool.acquire("run-a").then((lease) => {
+    secondStarted = true;
+    return lease;
+  });
+  await new Promise((r) => setImmediate(r));
+  assert.equal(secondStarted, false);
+
+  first.release();
+  const lease = await second;
+  assert.equal(lease.session, first.session);
+  assert.equal(created.length, 1);
+  lease.release();
+});
+
+test("a full pool disposes the least recently used idle session", async () => {
+  const { create } = fakes();
+  const pool = new SessionPool(create, 2);
+  const a = await pool.acquire("run-a");
+  a.release();
+  const b = await pool.acquire("run-b");
+  b.release();
+
+  const c = await pool.acquire("run-c");
+  assert.equal(a.session.disposed, true);
+  assert.equal(b.session.disposed, false);
+  assert.equal(pool.size, 2);
+  c.release();
+});
+
+test("a busy session is never evicted — the pool goes over its limit instead", async () => {
+  const { create } = fakes();
+  const pool = new SessionPool(create, 1);
+  const a = await pool.acquire("run-a");
+  const b = await pool.acquire("run-b");
+  assert.equal(a.session.disposed, false);
+  assert.equal(pool.size, 2);
+  a.release();
+  b.release();
+});
+
+test("a new run adopts the pre-warmed session while it is pristine", async () => {
+  const { create, created } = fakes();
+  const pool = new SessionPool(create, 2, (s) => s.history === 0);
+  const warmed = await pool.warm("");
+  const lease = await pool.acquire("run-a");
+  assert.equal(lease.session, warmed);
+  assert.equal(created.length, 1);
+  lease.release();
+});
+
+test("a warmed session with history is not adopted", async () => {
+  const { create } = fakes();
+  const pool = new SessionPool(create, 2, (s) => s.history === 0);
+  const warmed = await pool.warm("");
+  warmed.history = 12;
+  const lease = await pool.acquire("run-a");
+  assert.notEqual(lease.session, warmed);
+  lease.release();
+});
+
+test("a failed creation releases the session for the next task", async () => {
+  let fail = true;
+  const { create } = fakes();
+  const pool = new SessionPool(async () => {
+    if (fail) throw new Error("model unavailable");
+    return create();
+  }, 2);
+  await assert.rejects(pool.acquire("run-a"), /model unavailable/);
+  fail = false;
+  const lease = await pool.acquire("run-a");
+  assert.ok(lease.session);
+  lease.release();
+});
+
+test("sessions() lists the most recently used first", async () => {
+  const { create } = fakes();
+  const pool = new SessionPool(create, 3);
+  const a = await pool.acquire("run-a");
+  await new Promise((r) => setTimeout(r, 5));
+  const b = await pool.acquire("run-b");
+  await new Promise((r) => setTimeout(r, 5));
+  a.release();
+  assert.deepEqual(pool.sessions(), [a.session, b.session]);
+  b.release();
+});
+
+test("a session reopened by its own creator never adopts a spare", async () => {
+  const { create, created } = fakes();
+  const pool = new SessionPool(create, 2);
+  const warmed = await pool.warm("");
+  const lease = await pool.acquire("thread:t1", create);
+  assert.notEqual(lease.session, warmed);
+  assert.equal(created.length, 2);
+  lease.release();
+});
+
+test("refresh waits for a session's current task and holds back the next one", async () => {
+  const { create } = fakes();
+  const pool = new SessionPool(create, 2);
+  const busy = await pool.acquire("run-a");
+  const order: string[] = [];
+  const refreshed = pool.refresh(async () => {
+    order.push("refresh");
+  });
+  const next = pool.acquire("run-a").then((lease) => {
+    order.push("next task");
+    return lease;
+  });
+  await new Promise((r) => setImmediate(r));
+  assert.deepEqual(order, []);
+
+  busy.release();
+  assert.equal(await refreshed, 1);
+  (await next).release();
+  assert.deepEqual(order, ["refresh", "next task"]);
+});
+
+test("replace disposes the leased session and keeps the new one for the next task", async () => {
+  const { create } = fakes();
+  const pool = new SessionPool(create, 2);
+  const lease = await pool.acquire("run-a");
+  const old = lease.session;
+  const fresh = await create();
+  lease.replace(fresh);
+  assert.equal(old.disposed, true);
+  assert.equal(lease.session, fresh);
+  lease.release();
+
+  const next = await pool.acquire("run-a");
+  assert.equal(next.session, fresh);
+  next.release();
+});
@@ -0,0 +1,38 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import type { KnightConfig } from "../src/config.ts";
+import { rotationReason, rotationSeed } from "../src/session-rotation.ts";
+
+const config = (overrides: Partial<KnightConfig> = {}) =>
+  ({
+    sessionMaxMessages: 0,
+    sessionMaxBytes: 0,
+    sessionMaxCostUsd: 0,
+    sessionMaxIdleMs: 0,
+    ...overrides,
+  }) as KnightConfig;
+
+const usage = { messages: 120, bytes: 2_000_000, cost: 3.5, idleMs: 7_200_000 };
+
+test("with every limit off a session is never rotated", () => {
+  assert.equal(rotationReason(config(), usage), undefined);
+});
+
+test("a session under its limits is kept", () => {
+  const limits = config({ sessionMaxMessages: 200, sessionMaxBytes: 5_000_000, sessionMaxCostUsd: 10, sessionMaxIdleMs: 86_400_000 });
+  assert.equal(rotationReason(limits, usage), undefined);
+});
+
+test("each limit names itself as the rotation reason", () => {
+  assert.equal(rotationReason(config({ sessionMaxMessages: 100 }), usage)?.kind, "messages");
+  assert.equal(rotationReason(config({ sessionMaxBytes: 1_000_000 }), usage)?.kind, "size");
+  assert.equal(rotationReason(config({ sessionMaxCostUsd: 2 }), usage)?.kind, "cost");
+  assert.equal(rotationReason(config({ sessionMaxIdleMs: 3_600_000 }), usage)?.kind, "idle");
+  assert.match(rotationReason(config({ sessionMaxCostUsd: 2 }), usage)!.detail, /\$3\.5000 reached the limit of \$2/);
+});
+
+test("the seed explains the rotation and carries the notes", () => {
+  const seed = rotationSeed("\n- Working on the Q3 briefing\n", { kind: "idle", detail: "idle for 7200s" });
+  assert.match(seed, /^\[Session rotated: idle for 7200s\./);
+  assert.ok(seed.endsWith("\n\n- Working on the Q3 briefing"));
+});
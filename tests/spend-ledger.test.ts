@@ -0,0 +1,65 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { replayLedger, SpendLedger, type SpendCaps } from "../src/spend-ledger.ts";
+
+const noCaps: SpendCaps = { softDailyUsd: 0, softMonthlyUsd: 0, hardDailyUsd: 0, hardMonthlyUsd: 0 };
+const day1 = new Date("2026-03-10T09:00:00Z");
+const day2 = new Date("2026-03-11T09:00:00Z");
+
+test("spend rolls up by UTC day and month", () => {
+  const ledger = new SpendLedger("", noCaps);
+  ledger.record("task", "m", 1.5, "t1", day1);
+  ledger.record("subagent", "m", 0.5, undefined, day1);
+  ledger.record("task", "m", 2, "t2", day2);
+  assert.deepEqual(ledger.status(day2), { day: "2026-03-11", month: "2026-03", dailyUsd: 2, monthlyUsd: 4 });
+});
+
+test("zero and non-finite spend is not recorded", () => {
+  const ledger = new SpendLedger("", noCaps);
+  ledger.record("task", "m", 0, "t1", day1);
+  ledger.record("task", "m", Number.NaN, "t2", day1);
+  assert.equal(ledger.status(day1).dailyUsd, 0);
+});
+
+test("soft and hard caps are reported once reached", () => {
+  const ledger = new SpendLedger("", { softDailyUsd: 1, softMonthlyUsd: 0, hardDailyUsd: 0, hardMonthlyUsd: 3 });
+  ledger.record("task", "m", 1, "t1", day1);
+  const soft = ledger.status(day1);
+  assert.match(soft.soft!, /daily spend \$1\.00 reached the soft cap of \$1/);
+  assert.equal(soft.hard, undefined);
+
+  ledger.record("task", "m", 2, "t2", day2);
+  const hard = ledger.status(day2);
+  assert.match(hard.hard!, /monthly spend \$3\.00 reached the hard cap of \$3/);
+});
+
+test("a daily cap resets the next day", () => {
+  const ledger = new SpendLedger("", { ...noCaps, hardDailyUsd: 1 });
+  ledger.record("task", "m", 1, "t1", day1);
+  assert.ok(ledger.status(day1).hard);
+  assert.equal(ledger.status(day2).hard, undefined);
+});
+
+test("the ledger survives a restart and drops months before the previous one", (t) => {
+  const dir = mkdtempSync(join(tmpdir(), "spend-"));
+  t.after(() => rm(dir, { recursive: true, force: true }));
+  const path = join(dir, "spend-ledger.jsonl");
+  writeFileSync(path, JSON.stringify({ at: "2026-01-31T23:00:00Z", source: "task", model: "m", cost: 9 }) + "\n");
+  const before = new SpendLedger(path, noCaps);
+  before.record("task", "m", 1, "t1", new Date("2026-02-20T00:00:00Z"));
+  before.record("subagent", "m", 2, undefined, day1);
+
+  const after = new SpendLedger(path, noCaps);
+  assert.equal(after.load(day1), 2);
+  assert.equal(after.status(day1).monthlyUsd, 2);
+  assert.equal(readFileSync(path, "utf-8").trim().split("\n").length, 2);
+});
+
+test("replay skips malformed lines", () => {
+  const lines = ["not json", JSON.stringify({ at: "2026-03-01T00:00:00Z", cost: "x" }), JSON.stringify({ at: "2026-03-01T00:00:00Z", source: "task", model: "m", cost: 1 })];
+  assert.equal(replayLedger(lines.join("\n"), "2026-02").length, 1);
+});
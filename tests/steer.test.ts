@@ -0,0 +1,32 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { parseSteerRequest, steerMessage } from "../src/steer.ts";
+
+test("a JSON steer carries text, mode and sender", () => {
+  assert.deepEqual(parseSteerRequest("sec-123", JSON.stringify({ text: "Skip the appendix", mode: "follow_up", from: "tim" })), {
+    taskId: "sec-123",
+    text: "Skip the appendix",
+    mode: "follow_up",
+    from: "tim",
+  });
+});
+
+test("a plain-text payload is a steer", () => {
+  assert.deepEqual(parseSteerRequest("sec-123", "  focus on CVE-2026-1234 "), {
+    taskId: "sec-123",
+    text: "focus on CVE-2026-1234",
+    mode: "steer",
+  });
+});
+
+test("a steer without text or with an unknown mode is refused", () => {
+  assert.equal(parseSteerRequest("sec-123", ""), "text is required");
+  assert.equal(parseSteerRequest("sec-123", '{"mode":"steer"}'), "text is required");
+  assert.match(parseSteerRequest("sec-123", '{"text":"x","mode":"interrupt"}') as string, /mode must be one of/);
+});
+
+test("the session message names the sender and never starts like a command", () => {
+  const msg = steerMessage({ taskId: "t", text: "/skill:deploy now", mode: "steer", from: "tim" });
+  assert.match(msg, /^\[Steering message from tim/);
+  assert.ok(msg.endsWith("\n\n/skill:deploy now"));
+});
@@ -0,0 +1,50 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { checkStructuredOutput, extractJson, withOutputSchema } from "../src/structured-output.ts";
+
+const schema = {
+  type: "object",
+  required: ["severity", "cves"],
+  properties: {
+    severity: { enum: ["low", "medium", "high"] },
+    cves: { type: "array", items: { type: "string", pattern: "^CVE-" } },
+  },
+};
+
+test("extractJson prefers the last fenced block", () => {
+  const text = 'Draft:\n```json\n{"a": 1}\n```\nFinal:\n```json\n{"a": 2}\n```';
+  assert.deepEqual(extractJson(text), { found: true, value: { a: 2 } });
+});
+
+test("extractJson falls back to bare JSON and embedded objects", () => {
+  assert.deepEqual(extractJson('  [1, 2] '), { found: true, value: [1, 2] });
+  assert.deepEqual(extractJson('Here you go: {"ok": true} — done.'), { found: true, value: { ok: true } });
+  assert.deepEqual(extractJson("no json here"), { found: false });
+});
+
+test("checkStructuredOutput returns the parsed value when it validates", () => {
+  const check = checkStructuredOutput('```json\n{"severity":"high","cves":["CVE-2026-1234"]}\n```', schema);
+  assert.deepEqual(check, { ok: true, data: { severity: "high", cves: ["CVE-2026-1234"] } });
+});
+
+test("checkStructuredOutput lists validation errors by path", () => {
+  const check = checkStructuredOutput('{"severity":"urgent","cves":["1234"]}', schema);
+  assert.equal(check.ok, false);
+  if (!check.ok) {
+    assert.ok(check.errors.some((e) => e.startsWith("/severity:")));
+    assert.ok(check.errors.some((e) => e.startsWith("/cves/0:")));
+  }
+});
+
+test("an answer without JSON fails the check", () => {
+  assert.deepEqual(checkStructuredOutput("It is high severity.", schema), {
+    ok: false,
+    errors: ["no parseable JSON value found in the answer"],
+  });
+});
+
+test("withOutputSchema appends the schema to the task", () => {
+  const prompt = withOutputSchema("Assess CVE-2026-1234", schema);
+  assert.ok(prompt.startsWith("Assess CVE-2026-1234\n\n<output_format>"));
+  assert.ok(prompt.includes('"required": ['));
+});
@@ -0,0 +1,41 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { parseTaskEnvelope, TASK_ENVELOPE_VERSION, validateTaskEnvelope } from "../src/task-envelope.ts";
+
+test("a well-formed envelope validates", () => {
+  const parsed = parseTaskEnvelope(JSON.stringify({
+    version: TASK_ENVELOPE_VERSION,
+    task: "Check CVE-2026-1234",
+    task_id: "sec-1",
+    priority: "high",
+    thread_id: "cve-review",
+    reply_to_task_id: "sec-0",
+    metadata: { timeout_ms: 600000, table_prefix: "fleet-a" },
+    unknown_future_field: true,
+  }));
+  assert.equal(parsed.ok, true);
+});
+
+test("raw text and lenient aliases are rejected", () => {
+  assert.deepEqual(parseTaskEnvelope("just do the thing"), { ok: false, errors: ["/: payload is not valid JSON"] });
+  const parsed = parseTaskEnvelope('{"description":"do the thing"}');
+  assert.equal(parsed.ok, false);
+  if (!parsed.ok) assert.match(parsed.errors.join("\n"), /task/);
+});
+
+test("errors name the offending path and collapse union branches", () => {
+  const errors = validateTaskEnvelope({ task: "", priority: "urgent", version: 99 });
+  assert.ok(errors.some((e) => e.startsWith("/task:")));
+  assert.deepEqual(errors.filter((e) => e.startsWith("/priority")), ["/priority: does not match any allowed type"]);
+  assert.ok(errors.some((e) => e.startsWith("/version:")));
+});
+
+test("a zero timeout is unset, not invalid (#30); a negative one is invalid", () => {
+  assert.deepEqual(validateTaskEnvelope({ task: "x", metadata: { timeout_ms: 0 } }), []);
+  assert.deepEqual(validateTaskEnvelope({ task: "x", metadata: { timeout_ms: -5 } }), ["/metadata/timeout_ms: must be >= 0"]);
+});
+
+test("a non-object payload is rejected", () => {
+  assert.equal(parseTaskEnvelope("[1,2]").ok, false);
+  assert.equal(parseTaskEnvelope("null").ok, false);
+});
@@ -0,0 +1,132 @@
+import test, { after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, writeFileSync } from "node:fs";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { TaskQueue, replayJournal } from "../src/task-queue.ts";
+import type { ParsedTask, TaskDelivery } from "../src/nats.ts";
+
+const tempDirs: string[] = [];
+after(() => Promise.all(tempDirs.map((dir) => rm(dir, { recursive: true, force: true }))));
+
+function journalPath(): string {
+  const dir = mkdtempSync(join(tmpdir(), "pi-knight-queue-"));
+  tempDirs.push(dir);
+  return join(dir, "task-queue.jsonl");
+}
+
+function task(taskId: string, extra: Partial<ParsedTask> = {}): ParsedTask {
+  return { task: `do ${taskId}`, taskId, ...extra };
+}
+
+const delivery = { attempt: 1, maxDeliver: 3, redelivered: false, canRetry: true } as TaskDelivery;
+
+test("queued tasks survive a restart and replay in enqueue order", () => {
+  const path = journalPath();
+  const q1 = new TaskQueue(path);
+  q1.push(task("a", { runId: "run-1", timeoutMs: 5000 }));
+  q1.push(task("b"));
+  q1.push(task("c"));
+  assert.equal(q1.shift()?.task.taskId, "a");
+
+  const q2 = new TaskQueue(path);
+  assert.equal(q2.restore(), 2);
+  assert.deepEqual(q2.snapshot().map((e) => e.task.taskId), ["b", "c"]);
+});
+
+test("replay keeps task metadata", () => {
+  const path = journalPath();
+  new TaskQueue(path).push(task("a", { runId: "run-1", timeoutMs: 5000, from: "tim" }));
+  const q = new TaskQueue(path);
+  q.restore();
+  assert.deepEqual(q.snapshot()[0].task, { task: "do a", taskId: "a", runId: "run-1", timeoutMs: 5000, from: "tim" });
+});
+
+test("removed tasks do not replay", () => {
+  const path = journalPath();
+  const q1 = new TaskQueue(path);
+  q1.push(task("a"));
+  q1.push(task("b"));
+  assert.equal(q1.remove("a", "cancelled")?.task.taskId, "a");
+  assert.equal(q1.remove("missing", "cancelled"), undefined);
+
+  const q2 = new TaskQueue(path);
+  q2.restore();
+  assert.deepEqual(q2.snapshot().map((e) => e.task.taskId), ["b"]);
+});
+
+test("the journal is truncated once nothing journaled is pending", () => {
+  const path = journalPath();
+  const q = new TaskQueue(path);
+  q.push(task("a"));
+  q.shift();
+  assert.equal(readFileSync(path, "utf-8"), "");
+});
+
+test("at-least-once tasks are queued but never journaled (JetStream redelivers them)", () => {
+  const path = journalPath();
+  const q1 = new TaskQueue(path);
+  q1.push(task("held", { delivery }));
+  q1.push(task("acked"));
+  assert.equal(q1.length, 2);
+
+  const q2 = new TaskQueue(path);
+  q2.restore();
+  assert.deepEqual(q2.snapshot().map((e) => e.task.taskId), ["acked"]);
+});
+
+test("replayJournal skips torn or malformed lines", () => {
+  const lines = [
+    JSON.stringify({ op: "enqueue", at: "2026-10-01T00:00:00Z", task: { task: "x", taskId: "a" } }),
+    '{"op":"enqueue","at":"2026-10-01T00:00:01Z","task":{"task":"y","tas',
+    "not json",
+    JSON.stringify({ op: "enqueue", at: "2026-10-01T00:00:02Z", task: { task: "z", taskId: "c" } }),
+  ];
+  const pending = replayJournal(lines.join("\n"));
+  assert.deepEqual(pending.map((e) => e.task.taskId), ["a", "c"]);
+  assert.equal(pending[0].enqueuedAt, Date.parse("2026-10-01T00:00:00Z"));
+});
+
+test("restore compacts the journal to the pending set", () => {
+  const path = journalPath();
+  writeFileSync(path, [
+    JSON.stringify({ op: "enqueue", at: "2026-10-01T00:00:00Z", task: { task: "x", taskId: "a" } }),
+    JSON.stringify({ op: "dequeue", at: "2026-10-01T00:00:01Z", taskId: "a", reason: "started" }),
+    JSON.stringify({ op: "enqueue", at: "2026-10-01T00:00:02Z", task: { task: "y", taskId: "b" } }),
+  ].join("\n") + "\n");
+  new TaskQueue(path).restore();
+  const lines = readFileSync(path, "utf-8").trim().split("\n");
+  assert.equal(lines.length, 1);
+  assert.equal(JSON.parse(lines[0]).task.taskId, "b");
+});
+
+test("an empty journal path disables persistence", () => {
+  const q = new TaskQueue("");
+  q.push(task("a"));
+  assert.equal(q.restore(), 0);
+});
+
+test("higher priority dequeues first, FIFO within a level", () => {
+  const q = new TaskQueue("");
+  q.push(task("research", { priority: "low" }));
+  q.push(task("a"));
+  q.push(task("alert", { priority: "critical" }));
+  q.push(task("b", { priority: "normal" }));
+  assert.equal(q.position("alert"), 0);
+  assert.deepEqual([q.shift(), q.shift(), q.shift(), q.shift()].map((e) => e?.task.taskId), ["alert", "a", "b", "research"]);
+});
+
+test("waiting tasks age up so low priority can't starve", () => {
+  const q = new TaskQueue("", 1000);
+  q.push(task("old-low", { priority: "low" }));
+  q.push(task("new-high", { priority: "high" }));
+  const now = Date.now();
+  const [oldLow, newHigh] = q.snapshot();
+  newHigh.enqueuedAt = now;
+  oldLow.enqueuedAt = now - 1500;
+  assert.equal(q.ordered(now)[0].task.taskId, "new-high");
+  // Two levels of aging: low (0) + 2 ties high (2), and the older task wins the tie.
+  oldLow.enqueuedAt = now - 2000;
+  assert.equal(q.shift(now)?.task.taskId, "old-low");
+});
@@ -0,0 +1,82 @@
+import test, { after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync } from "node:fs";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { ThreadStore, replayThreads } from "../src/threads.ts";
+
+const tempDirs: string[] = [];
+after(() => Promise.all(tempDirs.map((dir) => rm(dir, { recursive: true, force: true }))));
+
+function storePath(): string {
+  const dir = mkdtempSync(join(tmpdir(), "pi-knight-threads-"));
+  tempDirs.push(dir);
+  return join(dir, "threads.jsonl");
+}
+
+const ref = (n: number) => ({ sessionFile: `/data/sessions/s${n}.jsonl`, leafId: `leaf${n}` });
+
+test("recorded tasks survive a restart", () => {
+  const path = storePath();
+  const s1 = new ThreadStore(path, 10);
+  s1.record("t1", "report", ref(1));
+  s1.record("t2", undefined, ref(2));
+
+  const s2 = new ThreadStore(path, 10);
+  assert.equal(s2.load(), 2);
+  assert.deepEqual(s2.get("t2"), { taskId: "t2", ...ref(2), storedAt: s1.get("t2")!.storedAt });
+  assert.equal(s2.latest("report")?.taskId, "t1");
+});
+
+test("a thread resumes from its latest task", () => {
+  const store = new ThreadStore("", 10);
+  store.record("t1", "report", ref(1));
+  store.record("t2", "report", ref(2));
+  assert.deepEqual(store.resolve({ taskId: "t3", threadId: "report" }), { threadId: "report", from: ref(2) });
+});
+
+test("a new thread starts without a session to resume", () => {
+  const store = new ThreadStore("", 10);
+  assert.deepEqual(store.resolve({ taskId: "t1", threadId: "report" }), { threadId: "report" });
+});
+
+test("a reply resumes right after the replied-to task and joins its thread", () => {
+  const store = new ThreadStore("", 10);
+  store.record("t1", "report", ref(1));
+  store.record("t2", "report", ref(2));
+  assert.deepEqual(store.resolve({ taskId: "t3", replyToTaskId: "t1" }), { threadId: "report", from: ref(1) });
+});
+
+test("a reply to an unthreaded task starts a thread named after it", () => {
+  const store = new ThreadStore("", 10);
+  store.record("t1", undefined, ref(1));
+  assert.deepEqual(store.resolve({ taskId: "t2", replyToTaskId: "t1" }), { threadId: "t1", from: ref(1) });
+  assert.deepEqual(store.resolve({ taskId: "t2", replyToTaskId: "gone" }), { threadId: "gone" });
+});
+
+test("unthreaded tasks resolve to no thread", () => {
+  assert.equal(new ThreadStore("", 10).resolve({ taskId: "t1" }), undefined);
+});
+
+test("the oldest tasks are evicted past the limit", () => {
+  const store = new ThreadStore("", 2);
+  store.record("t1", "a", ref(1));
+  store.record("t2", "b", ref(2));
+  store.record("t3", "b", ref(3));
+  assert.equal(store.size, 2);
+  assert.equal(store.get("t1"), undefined);
+  assert.equal(store.latest("a"), undefined);
+  assert.equal(store.latest("b")?.taskId, "t3");
+});
+
+test("replay keeps the last line per task and drops malformed lines", () => {
+  const path = storePath();
+  const store = new ThreadStore(path, 10);
+  store.record("t1", "a", ref(1));
+  store.record("t1", "a", ref(2));
+  const lines = readFileSync(path, "utf-8") + "not json\n{\"taskId\":\"t9\"}\n";
+  const entries = replayThreads(lines);
+  assert.equal(entries.length, 1);
+  assert.equal(entries[0].leafId, "leaf2");
+});
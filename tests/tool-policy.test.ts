@@ -0,0 +1,75 @@
+import test from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import type { KnightConfig } from "../src/config.ts";
+import { compilePolicy, globToRegExp, loadToolPolicy } from "../src/tool-policy.ts";
+
+test("the built-in rules block the former hardcoded bash patterns", () => {
+  const policy = compilePolicy({}, "galahad", "built-in");
+  assert.deepEqual(policy.evaluate("bash", { command: "git push origin main --force" }), {
+    action: "deny",
+    rule: "force-push",
+    reason: "Force push without lease (use --force-with-lease or new commits)",
+  });
+  assert.equal(policy.evaluate("Bash", { command: "rm -rf /" }).rule, "rm-rf-root");
+  assert.deepEqual(policy.evaluate("bash", { command: "git push --force-with-lease" }), { action: "allow", rule: "default" });
+  assert.equal(policy.evaluate("read", { command: "mkfs /dev/sda" }).action, "allow");
+});
+
+test("the first matching rule decides, the knight's own rules first", () => {
+  const policy = compilePolicy({
+    default: "deny",
+    rules: [
+      { id: "web", tool: "web_fetch", action: "ask", match: { url: { host: "*.example.com" } } },
+      { tool: "*", action: "allow" },
+    ],
+    knights: { galahad: { rules: [{ id: "galahad-web", tool: "web_fetch", action: "allow", match: { url: { host: "docs.example.com" } } }] } },
+  }, "galahad", "test");
+  assert.equal(policy.evaluate("web_fetch", { url: "https://docs.example.com/a" }).rule, "galahad-web");
+  assert.equal(policy.evaluate("web_fetch", { url: "https://api.v2.example.com/a" }).action, "ask");
+  assert.equal(policy.evaluate("web_fetch", { url: "https://example.org" }).rule, "rules[1]");
+  // Without a matching rule the knight's default applies.
+  assert.equal(compilePolicy({ default: "deny", builtin: false }, "galahad", "test").evaluate("bash", { command: "ls" }).action, "deny");
+});
+
+test("path globs match resolved paths, and every matcher must match", () => {
+  const policy = compilePolicy({
+    builtin: false,
+    rules: [{ id: "vault", tool: ["write", "edit"], action: "deny", match: { path: { glob: "/vault/**" }, content: "password" }, reason: "No passwords in the vault" }],
+  }, "galahad", "test");
+  assert.equal(policy.evaluate("edit", { path: "../vault/Notes/a.md", content: "password: x" }).rule, "vault");
+  assert.equal(policy.evaluate("write", { path: "/vault/a.md", content: "hello" }).action, "allow");
+  assert.equal(policy.evaluate("write", { path: "/data/a.md", content: "password" }).action, "allow");
+});
+
+test("globs: * stays within a directory, ** crosses directories", () => {
+  assert.ok(globToRegExp("/vault/*.md").test("/vault/a.md"));
+  assert.ok(!globToRegExp("/vault/*.md").test("/vault/Briefings/a.md"));
+  assert.ok(globToRegExp("/vault/**/*.md").test("/vault/a.md"));
+  assert.ok(globToRegExp("/vault/**/*.md").test("/vault/Briefings/2026/a.md"));
+  assert.ok(globToRegExp("*.example.com", false).test("a.b.example.com"));
+});
+
+test("an invalid policy is refused with every problem listed", () => {
+  assert.throws(
+    () => compilePolicy({ rules: [{ tool: "bash", action: "block" }], extra: true }, "galahad", "p.yaml"),
+    (err: Error) => err.message.startsWith("Invalid tool policy p.yaml:") && /\/rules\/0\/action/.test(err.message) && /extra|additional/i.test(err.message),
+  );
+  assert.throws(
+    () => compilePolicy({ rules: [{ tool: "bash", action: "deny", match: { command: "(" } }] }, "galahad", "p.yaml"),
+    /rules\[0\]: match\.command\.regex/,
+  );
+});
+
+test("a YAML policy file is loaded, and a missing one falls back to the built-in rules", () => {
+  const path = join(mkdtempSync(join(tmpdir(), "policy-")), "tool-policy.yaml");
+  writeFileSync(path, "builtin: false\nrules:\n  - id: no-curl\n    tool: bash\n    action: deny\n    match:\n      command: '\\bcurl\\b'\n");
+  const config = (toolPolicyPath: string) => ({ knightName: "galahad", toolPolicyPath }) as KnightConfig;
+  const policy = loadToolPolicy(config(path));
+  assert.equal(policy.source, path);
+  assert.equal(policy.ruleCount, 1);
+  assert.equal(policy.evaluate("bash", { command: "curl https://x" }).rule, "no-curl");
+  assert.equal(loadToolPolicy(config(join(path, "missing"))).source, "built-in");
+});